@@ -0,0 +1,105 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { AlertTriangle, Loader2, Lock } from "lucide-react"
+
+export default function AdminLoginPage() {
+  const router = useRouter()
+  const [username, setUsername] = useState("")
+  const [password, setPassword] = useState("")
+  const [signingIn, setSigningIn] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const signIn = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setSigningIn(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/admin/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      })
+
+      if (response.status === 401) {
+        setError("ユーザー名またはパスワードが正しくありません")
+        return
+      }
+      if (response.status === 429) {
+        const data = await response.json().catch(() => ({}))
+        const minutes = Math.ceil((data.retryAfter ?? 60) / 60)
+        setError(`試行回数が多すぎます。${minutes}分ほど待ってから再度お試しください`)
+        return
+      }
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Sign-in failed")
+      }
+
+      // The middleware sends us here with the page that was asked for; only admin pages are followed
+      const next = new URLSearchParams(window.location.search).get("next")
+      router.replace(next?.startsWith("/admin") ? next : "/admin")
+    } catch (error) {
+      setError(`ログインに失敗しました: ${error instanceof Error ? error.message : "Unknown error"}`)
+    } finally {
+      setSigningIn(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            管理者ログイン
+          </CardTitle>
+          <CardDescription>管理ダッシュボードを使うにはログインしてください</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={signIn} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="admin-username">ユーザー名</Label>
+              <Input
+                id="admin-username"
+                autoComplete="username"
+                value={username}
+                onChange={(event) => setUsername(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="admin-password">パスワード</Label>
+              <Input
+                id="admin-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                required
+              />
+            </div>
+            {error && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <Button type="submit" className="w-full" disabled={signingIn}>
+              {signingIn && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              ログイン
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,12 +1,24 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
-import { Trash2, RefreshCw, Clock, FileIcon, AlertTriangle, CheckCircle, Loader2, Settings } from "lucide-react"
+import {
+  Trash2,
+  RefreshCw,
+  Clock,
+  FileIcon,
+  AlertTriangle,
+  CheckCircle,
+  Loader2,
+  Settings,
+  Database,
+  LogOut,
+} from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 
 interface FileStatus {
@@ -22,6 +34,8 @@ interface CleanupStatus {
   activeFiles: number
   expiredFiles: number
   files: FileStatus[]
+  pagesScanned: number
+  objectsScanned: number
   lastChecked: string
 }
 
@@ -29,7 +43,21 @@ export default function AdminPage() {
   const [status, setStatus] = useState<CleanupStatus | null>(null)
   const [loading, setLoading] = useState(true)
   const [cleaning, setCleaning] = useState(false)
+  const [migrating, setMigrating] = useState(false)
   const { toast } = useToast()
+  const router = useRouter()
+
+  // The session ran out while the page was open
+  const sessionExpired = (response: Response) => {
+    if (response.status !== 401) return false
+    router.replace("/admin/login?next=/admin")
+    return true
+  }
+
+  const signOut = async () => {
+    await fetch("/api/admin/session", { method: "DELETE" })
+    router.replace("/admin/login")
+  }
 
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return "0 Bytes"
@@ -42,6 +70,7 @@ export default function AdminPage() {
   const fetchStatus = async () => {
     try {
       const response = await fetch("/api/cleanup-status")
+      if (sessionExpired(response)) return
       if (response.ok) {
         const data = await response.json()
         setStatus(data)
@@ -66,6 +95,7 @@ export default function AdminPage() {
         method: "POST",
       })
 
+      if (sessionExpired(response)) return
       if (response.ok) {
         const result = await response.json()
         toast({
@@ -87,6 +117,35 @@ export default function AdminPage() {
     }
   }
 
+  const runMigration = async () => {
+    setMigrating(true)
+    try {
+      const response = await fetch("/api/admin/migrate-metadata", {
+        method: "POST",
+      })
+
+      if (sessionExpired(response)) return
+      if (response.ok) {
+        const result = await response.json()
+        toast({
+          title: "移行完了",
+          description: `${result.importedCount}個のメタデータを移行しました`,
+        })
+        await fetchStatus() // Refresh status
+      } else {
+        throw new Error("Migration failed")
+      }
+    } catch (error) {
+      toast({
+        title: "エラー",
+        description: "メタデータの移行に失敗しました",
+        variant: "destructive",
+      })
+    } finally {
+      setMigrating(false)
+    }
+  }
+
   useEffect(() => {
     fetchStatus()
   }, [])
@@ -109,6 +168,10 @@ export default function AdminPage() {
         <div className="text-center space-y-2">
           <h1 className="text-3xl md:text-4xl font-bold text-gray-900">管理ダッシュボード</h1>
           <p className="text-base md:text-lg text-gray-600">ファイル管理と自動削除システム</p>
+          <Button onClick={signOut} variant="ghost" size="sm">
+            <LogOut className="h-4 w-4 mr-2" />
+            ログアウト
+          </Button>
         </div>
 
         {/* Stats Cards */}
@@ -173,6 +236,11 @@ export default function AdminPage() {
                 期限切れファイル削除
               </Button>
 
+              <Button onClick={runMigration} disabled={migrating} variant="outline">
+                {migrating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Database className="h-4 w-4 mr-2" />}
+                旧メタデータ移行
+              </Button>
+
               <Button onClick={() => (window.location.href = "/")} variant="outline">
                 メインページに戻る
               </Button>
@@ -181,11 +249,12 @@ export default function AdminPage() {
             <Alert>
               <Clock className="h-4 w-4" />
               <AlertDescription>
-                自動削除は6時間ごとに実行されます。ファイルは24時間後に自動的に削除されます。
+                自動削除は6時間ごとに実行されます。ファイルはアップロード時に選ばれた保存期間が過ぎると自動的に削除されます。
                 {status && (
                   <>
                     <br />
-                    最終チェック: {new Date(status.lastChecked).toLocaleString("ja-JP")}
+                    最終チェック: {new Date(status.lastChecked).toLocaleString("ja-JP")}（{status.pagesScanned}
+                    ページ / {status.objectsScanned}件を走査）
                   </>
                 )}
               </AlertDescription>
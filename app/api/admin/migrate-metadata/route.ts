@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { importLegacyMetadata } from "@/lib/metadata/migrate"
+
+// Imports legacy metadata_<id>.json objects into the indexed metadata layout
+export async function POST() {
+  try {
+    console.log("Starting metadata migration...")
+
+    const result = await importLegacyMetadata(getStorage())
+
+    console.log("Migration result:", result)
+    return NextResponse.json({
+      success: true,
+      message: `Migration completed. Imported ${result.importedCount} metadata files.`,
+      ...result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error("Migration error:", error)
+    return NextResponse.json(
+      {
+        error: `Migration failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ADMIN_SESSION_COOKIE, createAdminSession, getAdminAuthProvider, readAdminSession } from "@/lib/admin-auth"
+import { getStorage } from "@/lib/storage"
+import { adminSignInRetryAfter, clientAddressOf, recordFailedAdminSignIn } from "@/lib/unlock-throttle"
+
+// Left open by the middleware, since this is where an admin session starts
+
+export async function GET(request: NextRequest) {
+  const identity = await readAdminSession(request.cookies.get(ADMIN_SESSION_COOKIE)?.value)
+  if (!identity) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+  }
+  return NextResponse.json({ username: identity.username })
+}
+
+// Signs in; the local provider expects { username, password }
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getAdminAuthProvider()
+    const storage = getStorage()
+
+    // Checked before the credentials, so a throttled client learns nothing from its guesses
+    const address = clientAddressOf(request)
+    const retryAfterMs = await adminSignInRetryAfter(storage, address)
+    if (retryAfterMs > 0) {
+      console.log("Too many failed admin sign-ins, throttling")
+      return NextResponse.json(
+        { error: "Too many attempts", retryAfter: Math.ceil(retryAfterMs / 1000) },
+        { status: 429, headers: { "Retry-After": Math.ceil(retryAfterMs / 1000).toString() } },
+      )
+    }
+
+    const identity = await provider.authenticate(request)
+
+    if (!identity) {
+      console.log("Admin sign-in rejected via", provider.name)
+      await recordFailedAdminSignIn(storage, address)
+      return NextResponse.json({ error: "Invalid username or password" }, { status: 401 })
+    }
+
+    const session = await createAdminSession(identity)
+    console.log("Admin signed in:", identity.username)
+
+    const response = NextResponse.json({ username: identity.username, expiresAt: session.expiresAt.toISOString() })
+    response.cookies.set(ADMIN_SESSION_COOKIE, session.value, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      // Never sent along with requests from other sites, which rules out CSRF on the admin routes
+      sameSite: "strict",
+      path: "/",
+      expires: session.expiresAt,
+    })
+    return response
+  } catch (error) {
+    console.error("Admin sign-in error:", error)
+    return NextResponse.json(
+      { error: `Sign-in failed: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 },
+    )
+  }
+}
+
+// Signs out
+export async function DELETE() {
+  const response = NextResponse.json({ success: true })
+  response.cookies.delete(ADMIN_SESSION_COOKIE)
+  return response
+}
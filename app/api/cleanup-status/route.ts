@@ -1,19 +1,16 @@
 import { NextResponse } from "next/server"
-import { list } from "@vercel/blob"
+import { getStorage } from "@/lib/storage"
+import { listLegacyMetadata, listMetadata, readMetadata } from "@/lib/metadata"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { getExpiresAt, getRemainingHours, isExpired } from "@/lib/expiry"
+
+const STATUS_CONCURRENCY = 8
 
 export async function GET() {
   try {
-    const token = process.env.BLOB_READ_WRITE_TOKEN
-
-    if (!token) {
-      return NextResponse.json({ error: "BLOB_READ_WRITE_TOKEN not configured" }, { status: 500 })
-    }
-
-    // List all blobs
-    const { blobs } = await list({ token })
+    const storage = getStorage()
 
     const now = Date.now()
-    const twentyFourHours = 24 * 60 * 60 * 1000
     const files: Array<{
       name: string
       uploadedAt: string
@@ -22,30 +19,41 @@ export async function GET() {
       expired: boolean
     }> = []
 
-    // Process metadata files
-    for (const blob of blobs) {
-      if (blob.pathname.startsWith("metadata_") && blob.pathname.endsWith(".json")) {
-        try {
-          const metadataResponse = await fetch(blob.url)
-          if (metadataResponse.ok) {
-            const metadata = await metadataResponse.json()
-            const uploadTime = new Date(metadata.uploadedAt).getTime()
-            const expiresAt = new Date(uploadTime + twentyFourHours)
-            const remainingTime = Math.max(0, Math.round((uploadTime + twentyFourHours - now) / (1000 * 60 * 60)))
-            const expired = now - uploadTime > twentyFourHours
+    let pagesScanned = 0
+    let objectsScanned = 0
+    const seen = new Set<string>()
 
-            files.push({
-              name: metadata.originalName,
-              uploadedAt: metadata.uploadedAt,
-              expiresAt: expiresAt.toISOString(),
-              remainingHours: remainingTime,
-              expired,
-            })
+    // Walk every page of metadata records, then of legacy records that have not been imported yet.
+    // Reading a legacy record imports it, so an id can turn up under both prefixes and is counted once.
+    for (const listPage of [listMetadata, listLegacyMetadata]) {
+      let cursor: string | undefined
+
+      do {
+        const page = await listPage(storage, { cursor })
+        pagesScanned++
+        objectsScanned += page.items.length
+        const fileIds = page.items.filter((fileId) => !seen.has(fileId))
+        fileIds.forEach((fileId) => seen.add(fileId))
+
+        await mapWithConcurrency(fileIds, STATUS_CONCURRENCY, async (fileId) => {
+          try {
+            const metadata = await readMetadata(storage, fileId)
+            if (metadata) {
+              files.push({
+                name: metadata.originalName,
+                uploadedAt: metadata.uploadedAt,
+                expiresAt: getExpiresAt(metadata).toISOString(),
+                remainingHours: getRemainingHours(metadata, now),
+                expired: isExpired(metadata, now),
+              })
+            }
+          } catch (error) {
+            console.error("Error processing metadata:", fileId, error)
           }
-        } catch (error) {
-          console.error("Error processing metadata:", blob.pathname, error)
-        }
-      }
+        })
+
+        cursor = page.hasMore ? page.cursor : undefined
+      } while (cursor)
     }
 
     // Sort by upload time (newest first)
@@ -59,6 +67,8 @@ export async function GET() {
       activeFiles: activeCount,
       expiredFiles: expiredCount,
       files,
+      pagesScanned,
+      objectsScanned,
       lastChecked: new Date().toISOString(),
     })
   } catch (error) {
@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { readCollection, readCollectionFiles } from "@/lib/collections"
+import { isExpired } from "@/lib/expiry"
+import { isPasswordProtected } from "@/lib/link-password"
+import { signPath } from "@/lib/signed-url"
+
+export async function GET(request: NextRequest, { params }: { params: { collectionId: string } }) {
+  try {
+    const storage = getStorage()
+    const collection = await readCollection(storage, params.collectionId)
+
+    if (!collection) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 })
+    }
+
+    if (new Date(collection.expiresAt).getTime() <= Date.now()) {
+      return NextResponse.json({ error: "Collection has expired" }, { status: 410 })
+    }
+
+    // Files that expired or were deleted on their own are left out, and so are password
+    // protected ones, whose names are not revealed without the password, and encrypted
+    // ones, which only open with the key in their own link
+    const files = await readCollectionFiles(storage, collection)
+    const visible = files.filter(
+      ({ metadata }) => metadata && !isExpired(metadata) && !isPasswordProtected(metadata) && !metadata.encryption,
+    )
+    const items = await Promise.all(
+      visible.map(async ({ item, metadata }) => ({
+        fileId: item.fileId,
+        path: item.path,
+        size: metadata!.compressed ? metadata!.originalSize : metadata!.size,
+        compressed: metadata!.compressed,
+        uploadedAt: metadata!.uploadedAt,
+        shareUrl: `${request.nextUrl.origin}/download/${item.fileId}`,
+        downloadUrl: await signPath(`/api/download-stream/${item.fileId}`),
+      })),
+    )
+
+    return NextResponse.json({
+      id: collection.id,
+      name: collection.name,
+      createdAt: collection.createdAt,
+      expiresAt: collection.expiresAt,
+      items,
+      // ?folder= can be appended to download a single folder
+      zipUrl: await signPath(`/api/collections/${collection.id}/zip`),
+    })
+  } catch (error) {
+    console.error("Get collection error:", error)
+    return NextResponse.json(
+      { error: `Failed to get collection: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { getStorageKey } from "@/lib/metadata"
+import { isExpired } from "@/lib/expiry"
+import { isPasswordProtected } from "@/lib/link-password"
+import { normalizeRelativePath, readCollection, readCollectionFiles } from "@/lib/collections"
+import { codecOf } from "@/lib/codecs"
+import { createDecompressionStream } from "@/lib/decompression"
+import { type ZipEntry, createZipStream, zipArchiveSize } from "@/lib/zip-stream"
+
+// Loose files of a collection may share a name, which an archive cannot hold twice
+function uniquePath(path: string, taken: Set<string>): string {
+  let candidate = path
+  const dot = path.lastIndexOf(".")
+  const [stem, extension] = dot > path.lastIndexOf("/") + 1 ? [path.slice(0, dot), path.slice(dot)] : [path, ""]
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${stem} (${n})${extension}`
+  }
+  taken.add(candidate)
+  return candidate
+}
+
+/*
+ * Streams every file of a collection as one ZIP archive, built while it is sent.
+ * ?folder=a/b limits the archive to that folder of an uploaded tree.
+ */
+export async function GET(request: NextRequest, { params }: { params: { collectionId: string } }) {
+  try {
+    const storage = getStorage()
+    const collection = await readCollection(storage, params.collectionId)
+
+    if (!collection) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 })
+    }
+
+    if (new Date(collection.expiresAt).getTime() <= Date.now()) {
+      return NextResponse.json({ error: "Collection has expired" }, { status: 410 })
+    }
+
+    const folderParam = request.nextUrl.searchParams.get("folder")
+    const folder = folderParam === null ? null : normalizeRelativePath(folderParam)
+    if (folderParam !== null && !folder) {
+      return NextResponse.json({ error: "Invalid folder" }, { status: 400 })
+    }
+
+    const taken = new Set<string>()
+    const entries: ZipEntry[] = []
+    for (const { item, metadata } of await readCollectionFiles(storage, collection)) {
+      // Files that expired or were deleted on their own are left out, as are limited ones,
+      // whose downloads are only counted by download-stream, password protected and encrypted ones
+      if (!metadata || isExpired(metadata) || metadata.maxDownloads || isPasswordProtected(metadata)) continue
+      if (metadata.encryption) continue
+      if (folder && !item.path.startsWith(`${folder}/`)) continue
+
+      const codec = codecOf(metadata)
+      entries.push({
+        path: uniquePath(item.path, taken),
+        size: metadata.compressed ? metadata.originalSize : metadata.size,
+        modifiedAt: new Date(metadata.uploadedAt),
+        open: async () => {
+          const stored = await storage.get(getStorageKey(metadata))
+          if (!stored) throw new Error(`File not accessible: ${item.path}`)
+          return codec ? stored.body.pipeThrough(createDecompressionStream(codec)) : stored.body
+        },
+      })
+    }
+
+    if (entries.length === 0) {
+      return NextResponse.json({ error: "No files available" }, { status: 404 })
+    }
+
+    const archiveName = `${folder ? folder.split("/").pop() : collection.name}.zip`
+    const contentLength = zipArchiveSize(entries)
+
+    console.log("Serving archive:", archiveName, `${entries.length} files`, "Size:", contentLength)
+
+    const headers = new Headers()
+    headers.set("Content-Type", "application/zip")
+    headers.set("Content-Disposition", `attachment; filename="${encodeURIComponent(archiveName)}"`)
+    headers.set("Content-Length", contentLength.toString())
+    headers.set("Cache-Control", "private, no-cache, no-store, must-revalidate")
+    headers.set("X-Content-Type-Options", "nosniff")
+    headers.set("X-File-Count", entries.length.toString())
+
+    return new NextResponse(createZipStream(entries), { status: 200, headers })
+  } catch (error) {
+    console.error("Collection archive error:", error)
+    return NextResponse.json(
+      { error: `Download failed: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 },
+    )
+  }
+}
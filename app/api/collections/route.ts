@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { createCollection } from "@/lib/collections"
+
+// Groups already uploaded files under one share link
+export async function POST(request: NextRequest) {
+  try {
+    const { name, fileIds } = await request.json()
+
+    if (
+      typeof name !== "string" ||
+      !name ||
+      !Array.isArray(fileIds) ||
+      fileIds.length === 0 ||
+      !fileIds.every((fileId) => typeof fileId === "string")
+    ) {
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
+    }
+
+    const collection = await createCollection(getStorage(), name, fileIds)
+
+    console.log("Created collection:", collection.id, name, `${collection.items.length} files`)
+
+    return NextResponse.json({
+      id: collection.id,
+      expiresAt: collection.expiresAt,
+      shareUrl: `${request.nextUrl.origin}/download/c/${collection.id}`,
+    })
+  } catch (error) {
+    console.error("Create collection error:", error)
+    if (error instanceof Error && error.message.startsWith("Files not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    return NextResponse.json(
+      { error: `Failed to create collection: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 },
+    )
+  }
+}
@@ -1,43 +1,40 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { del } from "@vercel/blob"
-
+import { getStorage } from "@/lib/storage"
+import { deleteFile, readMetadata } from "@/lib/metadata"
+import { isOwner, ownerTokenFrom } from "@/lib/owner-token"
+
+/*
+ * Deletes a file by its id. This used to accept a bare blob URL and guess the
+ * metadata from it; files are now only deleted with their owner token.
+ */
 export async function DELETE(request: NextRequest) {
   try {
-    const token = process.env.BLOB_READ_WRITE_TOKEN
-
-    if (!token) {
-      return NextResponse.json(
-        {
-          error: "BLOB_READ_WRITE_TOKEN is not configured",
-        },
-        { status: 500 },
-      )
-    }
+    const storage = getStorage()
 
-    const { blobUrl } = await request.json()
+    const { fileId } = await request.json()
 
-    if (!blobUrl) {
-      return NextResponse.json({ error: "No blob URL provided" }, { status: 400 })
+    if (!fileId) {
+      return NextResponse.json({ error: "No file ID provided" }, { status: 400 })
     }
 
-    console.log("Deleting blob:", blobUrl)
+    const ownerToken = ownerTokenFrom(request)
+    if (!ownerToken) {
+      return NextResponse.json({ error: "Owner token required" }, { status: 401 })
+    }
 
-    // Delete the file from Vercel Blob
-    await del(blobUrl, { token: token })
+    console.log("Deleting file:", fileId)
 
-    // Try to delete metadata file as well
-    try {
-      const urlParts = blobUrl.split("/")
-      const fileName = urlParts[urlParts.length - 1]
-      const fileId = fileName.split("_").slice(0, 2).join("_")
-      const metadataUrl = blobUrl.replace(fileName, `metadata_${fileId}.json`)
+    const metadata = await readMetadata(storage, fileId)
+    if (!metadata) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 })
+    }
 
-      console.log("Deleting metadata:", metadataUrl)
-      await del(metadataUrl, { token: token })
-    } catch (metadataError) {
-      console.log("Could not delete metadata:", metadataError)
+    if (!isOwner(metadata, ownerToken)) {
+      console.log("Delete rejected, owner token does not match:", fileId)
+      return NextResponse.json({ error: "Invalid owner token" }, { status: 403 })
     }
 
+    await deleteFile(storage, metadata)
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error("Delete error:", error)
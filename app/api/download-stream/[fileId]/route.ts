@@ -1,22 +1,31 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { list } from "@vercel/blob"
+import { getStorage } from "@/lib/storage"
+import { getStorageKey, readMetadata } from "@/lib/metadata"
+import { isExpired } from "@/lib/expiry"
+import { countLimitedDownload, getRemainingDownloads, reserveLimitedDownload } from "@/lib/download-limit"
+import { isUnlocked, unlockTokenFrom } from "@/lib/link-password"
+import { parseRangeHeader, sliceStream } from "@/lib/http-range"
+import { readFramedRange } from "@/lib/compression-frames"
+import { codecOf } from "@/lib/codecs"
+import { createDecompressionStream } from "@/lib/decompression"
 
 export async function GET(request: NextRequest, { params }: { params: { fileId: string } }) {
   try {
     const { fileId } = params
-    const token = process.env.BLOB_READ_WRITE_TOKEN
 
     console.log("=== DOWNLOAD STREAM API START ===")
     console.log("File ID:", fileId)
-    console.log("Token available:", !!token)
 
     if (!fileId) {
       console.error("File ID is missing")
       return NextResponse.json({ error: "File ID is required" }, { status: 400 })
     }
 
-    if (!token) {
-      console.error("BLOB_READ_WRITE_TOKEN is not configured")
+    let storage
+    try {
+      storage = getStorage()
+    } catch (configError) {
+      console.error("Storage is not configured:", configError)
       return NextResponse.json({ error: "Storage service not configured" }, { status: 500 })
     }
 
@@ -28,71 +37,13 @@ export async function GET(request: NextRequest, { params }: { params: { fileId:
     console.log("User agent:", userAgent.substring(0, 50))
 
     try {
-      // List all blobs to find the metadata file with retry logic
-      let blobs
-      let retryCount = 0
-      const maxRetries = 3
-
-      while (retryCount < maxRetries) {
-        try {
-          const listResult = await list({ token })
-          blobs = listResult.blobs
-          break
-        } catch (listError) {
-          retryCount++
-          console.error(`List attempt ${retryCount} failed:`, listError)
-
-          if (retryCount >= maxRetries) {
-            throw new Error("Failed to access blob storage")
-          }
-
-          await new Promise((resolve) => setTimeout(resolve, 1000 * retryCount))
-        }
-      }
-
-      const metadataBlob = blobs.find((blob) => blob.pathname === `metadata_${fileId}.json`)
+      const metadata = await readMetadata(storage, fileId)
 
-      if (!metadataBlob) {
+      if (!metadata) {
         console.log("Metadata file not found for fileId:", fileId)
         return NextResponse.json({ error: "File not found or expired" }, { status: 404 })
       }
 
-      console.log("Found metadata blob:", metadataBlob.url)
-
-      // Fetch metadata content with retry logic
-      let metadataResponse: Response
-      retryCount = 0
-
-      while (retryCount < maxRetries) {
-        try {
-          metadataResponse = await fetch(metadataBlob.url)
-          if (metadataResponse.ok) break
-          throw new Error(`HTTP ${metadataResponse.status}`)
-        } catch (fetchError) {
-          retryCount++
-          console.error(`Metadata fetch attempt ${retryCount} failed:`, fetchError)
-
-          if (retryCount >= maxRetries) {
-            throw new Error("Failed to fetch metadata")
-          }
-
-          await new Promise((resolve) => setTimeout(resolve, 1000 * retryCount))
-        }
-      }
-
-      if (!metadataResponse!.ok) {
-        console.log("Failed to fetch metadata content:", metadataResponse!.status)
-        return NextResponse.json({ error: "Failed to load file information" }, { status: 500 })
-      }
-
-      let metadata
-      try {
-        metadata = await metadataResponse!.json()
-      } catch (parseError) {
-        console.error("Failed to parse metadata:", parseError)
-        return NextResponse.json({ error: "File metadata is corrupted" }, { status: 500 })
-      }
-
       console.log("Loaded metadata:", {
         id: metadata.id,
         originalName: metadata.originalName,
@@ -100,77 +51,90 @@ export async function GET(request: NextRequest, { params }: { params: { fileId:
         compressed: metadata.compressed,
       })
 
-      // Check if file is expired (24 hours)
-      const uploadTime = new Date(metadata.uploadedAt).getTime()
-      const now = Date.now()
-      const twentyFourHours = 24 * 60 * 60 * 1000
-
-      if (now - uploadTime > twentyFourHours) {
+      // Check if file is expired
+      if (isExpired(metadata)) {
         console.log("File expired during download")
         return NextResponse.json({ error: "File has expired and has been deleted" }, { status: 410 })
       }
 
-      // Fetch the file with range support and retry logic
-      const fetchHeaders: HeadersInit = {}
-      if (range) {
-        fetchHeaders.Range = range
+      if (!isUnlocked(metadata, unlockTokenFrom(request))) {
+        console.log("Password required for file:", fileId)
+        return NextResponse.json({ error: "Password required", passwordRequired: true }, { status: 401 })
       }
 
-      let fileResponse: Response
-      retryCount = 0
+      // Limited files are only served whole, so every counted download is a complete one
+      const limited = !!metadata.maxDownloads
+      if (limited && (await getRemainingDownloads(storage, metadata)) === 0) {
+        console.log("Download limit already reached:", fileId)
+        return NextResponse.json({ error: "File has already been retrieved", retrieved: true }, { status: 410 })
+      }
 
-      while (retryCount < maxRetries) {
-        try {
-          fileResponse = await fetch(metadata.blobUrl, {
-            headers: fetchHeaders,
-          })
+      // Ranges always refer to the decompressed file, which is what the client receives
+      const totalSize = metadata.compressed ? metadata.originalSize : metadata.size
+      let byteRange = limited ? null : parseRangeHeader(range, totalSize)
 
-          if (fileResponse.ok || fileResponse.status === 206) {
-            break
-          }
+      // ?chunk=N serves a single frame of a framed upload
+      const chunkParam = request.nextUrl.searchParams.get("chunk")
+      if (chunkParam !== null && metadata.frames && !limited) {
+        const chunkIndex = Number(chunkParam)
+        if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= metadata.frames.offsets.length - 1) {
+          return NextResponse.json({ error: "Invalid chunk index" }, { status: 400 })
+        }
+        const start = chunkIndex * metadata.frames.frameSize
+        byteRange = { start, end: Math.min(start + metadata.frames.frameSize, totalSize) - 1 }
+      }
 
-          throw new Error(`HTTP ${fileResponse.status}: ${fileResponse.statusText}`)
-        } catch (fetchError) {
-          retryCount++
-          console.error(`File fetch attempt ${retryCount} failed:`, fetchError)
+      if (byteRange === "unsatisfiable") {
+        return new NextResponse(null, {
+          status: 416,
+          headers: { "Content-Range": `bytes */${totalSize}`, "Accept-Ranges": "bytes" },
+        })
+      }
 
-          if (retryCount >= maxRetries) {
-            throw new Error("Failed to fetch file from storage")
-          }
+      let body: ReadableStream<Uint8Array> | null
+      const codec = codecOf(metadata)
 
-          await new Promise((resolve) => setTimeout(resolve, 1000 * retryCount))
+      if (byteRange && codec && metadata.frames) {
+        // Framed uploads only inflate the frames the range touches
+        body = await readFramedRange(storage, getStorageKey(metadata), codec, metadata.frames, byteRange)
+      } else {
+        // A single compressed stream cannot be entered midway, so it is read from the start
+        const stored = await storage.get(
+          getStorageKey(metadata),
+          byteRange && !metadata.compressed ? byteRange : undefined,
+        )
+
+        // Pipe the stored body straight into the response; compressed files are inflated on the fly
+        body = stored && (codec ? stored.body.pipeThrough(createDecompressionStream(codec)) : stored.body)
+
+        if (stored && body && byteRange) {
+          // Cut the requested bytes out of whatever the backend returned
+          const offset = metadata.compressed ? 0 : (stored.range?.start ?? 0)
+          if (metadata.compressed || offset !== byteRange.start || stored.range?.end !== byteRange.end) {
+            body = body.pipeThrough(sliceStream(byteRange.start - offset, byteRange.end - offset))
+          }
         }
       }
 
-      if (!fileResponse!.ok && fileResponse!.status !== 206) {
-        console.log("Failed to fetch file from blob:", fileResponse!.status)
+      if (!body) {
+        console.log("Failed to fetch file from storage:", getStorageKey(metadata))
         return NextResponse.json({ error: "File not accessible" }, { status: 404 })
       }
 
-      // Get file content
-      let fileBuffer: ArrayBuffer
-      const isPartialContent = fileResponse!.status === 206
-
-      try {
-        fileBuffer = await fileResponse!.arrayBuffer()
-      } catch (bufferError) {
-        console.error("Failed to read file buffer:", bufferError)
-        return NextResponse.json({ error: "Failed to read file content" }, { status: 500 })
-      }
-
-      // Decompress if necessary
-      if (metadata.compressed) {
-        try {
-          const pako = await import("pako")
-          const decompressed = pako.ungzip(new Uint8Array(fileBuffer))
-          fileBuffer = decompressed.buffer
-          console.log("File decompressed successfully")
-        } catch (error) {
-          console.error("Decompression error:", error)
-          return NextResponse.json({ error: "Failed to decompress file" }, { status: 500 })
+      if (limited) {
+        // The slot is taken before the first byte, so parallel requests cannot all pass the check above
+        const marker = await reserveLimitedDownload(storage, metadata)
+        if (!marker) {
+          await body.cancel()
+          console.log("Download limit reached by concurrent downloads:", fileId)
+          return NextResponse.json({ error: "File has already been retrieved", retrieved: true }, { status: 410 })
         }
+        // Counted once the last byte has passed through; an aborted download gives its slot back
+        body = countLimitedDownload(storage, metadata, marker, body)
       }
 
+      const contentLength = byteRange ? byteRange.end - byteRange.start + 1 : totalSize
+
       // Prepare response headers
       const headers = new Headers()
 
@@ -223,7 +187,8 @@ export async function GET(request: NextRequest, { params }: { params: { fileId:
         gz: "application/gzip",
       }
 
-      if (fileExtension && mimeTypes[fileExtension]) {
+      // Ciphertext is only meaningful to the page holding the key
+      if (fileExtension && mimeTypes[fileExtension] && !metadata.encryption) {
         contentType = mimeTypes[fileExtension]
       }
 
@@ -239,34 +204,34 @@ export async function GET(request: NextRequest, { params }: { params: { fileId:
       headers.set("X-XSS-Protection", "1; mode=block")
 
       // Range support headers
-      if (range && isPartialContent) {
-        const contentRange = fileResponse!.headers.get("content-range")
-        if (contentRange) {
-          headers.set("Content-Range", contentRange)
-          headers.set("Accept-Ranges", "bytes")
-        }
-      } else {
-        headers.set("Content-Length", fileBuffer.byteLength.toString())
-        headers.set("Accept-Ranges", "bytes")
+      headers.set("Content-Length", contentLength.toString())
+      headers.set("Accept-Ranges", limited ? "none" : "bytes")
+      if (byteRange) {
+        headers.set("Content-Range", `bytes ${byteRange.start}-${byteRange.end}/${totalSize}`)
       }
 
       // Additional metadata headers
-      if (metadata.compressed) {
+      if (codec) {
         headers.set("X-Original-Size", metadata.originalSize.toString())
         headers.set("X-Compressed-Size", metadata.size.toString())
         headers.set("X-Compression-Ratio", metadata.compressionRatio.toString())
         headers.set("X-Decompressed", "true")
+        headers.set("X-Compression-Codec", codec)
+      }
+
+      if (metadata.encryption) {
+        headers.set("X-Encryption", metadata.encryption.algorithm)
       }
 
       headers.set("X-File-ID", fileId)
       headers.set("X-Upload-Date", metadata.uploadedAt)
 
-      console.log("Serving file:", fileName, "Size:", fileBuffer.byteLength, "Type:", contentType)
+      console.log("Serving file:", fileName, "Size:", contentLength, "Type:", contentType)
       console.log("=== DOWNLOAD STREAM API SUCCESS ===")
 
       // Return streaming response
-      return new NextResponse(fileBuffer, {
-        status: isPartialContent ? 206 : 200,
+      return new NextResponse(body, {
+        status: byteRange ? 206 : 200,
         headers,
       })
     } catch (listError) {
@@ -290,38 +255,27 @@ export async function GET(request: NextRequest, { params }: { params: { fileId:
 export async function HEAD(request: NextRequest, { params }: { params: { fileId: string } }) {
   try {
     const { fileId } = params
-    const token = process.env.BLOB_READ_WRITE_TOKEN
-
-    if (!token) {
-      return new NextResponse(null, { status: 500 })
-    }
-
-    const { blobs } = await list({ token })
-    const metadataBlob = blobs.find((blob) => blob.pathname === `metadata_${fileId}.json`)
+    const metadata = await readMetadata(getStorage(), fileId)
 
-    if (!metadataBlob) {
+    if (!metadata) {
       return new NextResponse(null, { status: 404 })
     }
 
-    const metadataResponse = await fetch(metadataBlob.url)
-    if (!metadataResponse.ok) {
-      return new NextResponse(null, { status: 500 })
+    // Check if file is expired
+    if (isExpired(metadata)) {
+      return new NextResponse(null, { status: 410 })
     }
 
-    const metadata = await metadataResponse.json()
-
-    // Check expiration
-    const uploadTime = new Date(metadata.uploadedAt).getTime()
-    const now = Date.now()
-    const twentyFourHours = 24 * 60 * 60 * 1000
-
-    if (now - uploadTime > twentyFourHours) {
-      return new NextResponse(null, { status: 410 })
+    if (!isUnlocked(metadata, unlockTokenFrom(request))) {
+      return new NextResponse(null, { status: 401 })
     }
 
     const headers = new Headers()
     headers.set("Content-Length", (metadata.compressed ? metadata.originalSize : metadata.size).toString())
-    headers.set("Accept-Ranges", "bytes")
+    // GET serves limited files only whole, so ranges are not offered for them
+    if (!metadata.maxDownloads) {
+      headers.set("Accept-Ranges", "bytes")
+    }
     headers.set("Content-Type", "application/octet-stream")
 
     return new NextResponse(null, {
@@ -1,7 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { readFile } from "fs/promises"
-import { existsSync } from "fs"
-import path from "path"
+import { getStorage } from "@/lib/storage"
+import { getStorageKey, metadataKey, readMetadata, toPublicMetadata } from "@/lib/metadata"
+import { isExpired } from "@/lib/expiry"
+import { codecOf } from "@/lib/codecs"
+import { decompressBuffer } from "@/lib/decompression"
+import { isPasswordProtected } from "@/lib/link-password"
+import { signPath } from "@/lib/signed-url"
 
 export async function GET(request: NextRequest, { params }: { params: { fileId: string } }) {
   try {
@@ -11,49 +15,47 @@ export async function GET(request: NextRequest, { params }: { params: { fileId:
       return NextResponse.json({ error: "File ID is required" }, { status: 400 })
     }
 
-    const uploadsDir = path.join(process.cwd(), "uploads", "files")
-    const metadataPath = path.join(uploadsDir, `${fileId}.json`)
+    const storage = getStorage()
 
-    console.log("Download API - Looking for metadata at:", metadataPath)
-
-    if (!existsSync(metadataPath)) {
-      console.log("Download API - Metadata file not found:", metadataPath)
-      return NextResponse.json({ error: "File not found" }, { status: 404 })
-    }
+    console.log("Download API - Looking for metadata at:", metadataKey(fileId))
 
     // Read metadata
-    const metadataBuffer = await readFile(metadataPath)
-    const metadata = JSON.parse(metadataBuffer.toString())
-
-    console.log("Download API - Found metadata:", metadata)
-
-    const filePath = metadata.path
-    if (!existsSync(filePath)) {
-      console.log("Download API - Actual file not found:", filePath)
+    const metadata = await readMetadata(storage, fileId)
+    if (!metadata) {
+      console.log("Download API - Metadata file not found:", metadataKey(fileId))
       return NextResponse.json({ error: "File not found" }, { status: 404 })
     }
 
-    // Check if file is expired (24 hours)
-    const uploadTime = new Date(metadata.uploadedAt).getTime()
-    const now = Date.now()
-    const twentyFourHours = 24 * 60 * 60 * 1000
+    console.log("Download API - Found metadata:", toPublicMetadata(metadata))
 
-    if (now - uploadTime > twentyFourHours) {
+    // Check if file is expired
+    if (isExpired(metadata)) {
       console.log("Download API - File expired")
       return NextResponse.json({ error: "File has expired" }, { status: 410 })
     }
 
+    // Limited and protected files are only handed out by download-stream, which counts them and checks the token
+    if (metadata.maxDownloads || isPasswordProtected(metadata)) {
+      const token = request.nextUrl.searchParams.get("token")
+      const target = await signPath(`/api/download-stream/${fileId}${token ? `?token=${encodeURIComponent(token)}` : ""}`)
+      return NextResponse.redirect(new URL(target, request.url))
+    }
+
     // Read file
-    let fileBuffer = await readFile(filePath)
+    const stored = await storage.get(getStorageKey(metadata))
+    if (!stored) {
+      console.log("Download API - Actual file not found:", getStorageKey(metadata))
+      return NextResponse.json({ error: "File not found" }, { status: 404 })
+    }
+
+    let fileBuffer = Buffer.from(await new Response(stored.body).arrayBuffer())
 
     // Decompress if necessary
-    if (metadata.compressed) {
+    const codec = codecOf(metadata)
+    if (codec) {
       try {
-        // Import pako for decompression
-        const pako = await import("pako")
-        const decompressed = pako.ungzip(fileBuffer)
-        fileBuffer = Buffer.from(decompressed)
-        console.log("File decompressed successfully")
+        fileBuffer = Buffer.from(decompressBuffer(codec, fileBuffer))
+        console.log("File decompressed successfully:", codec)
       } catch (error) {
         console.error("Decompression error:", error)
         return NextResponse.json({ error: "Failed to decompress file" }, { status: 500 })
@@ -62,18 +64,19 @@ export async function GET(request: NextRequest, { params }: { params: { fileId:
 
     // Set appropriate headers
     const headers = new Headers()
-    headers.set("Content-Disposition", `attachment; filename="${encodeURIComponent(metadata.name)}"`)
+    headers.set("Content-Disposition", `attachment; filename="${encodeURIComponent(metadata.originalName)}"`)
     headers.set("Content-Type", "application/octet-stream")
     headers.set("Content-Length", fileBuffer.length.toString())
     headers.set("Cache-Control", "no-cache, no-store, must-revalidate")
 
-    if (metadata.compressed) {
+    if (codec) {
+      headers.set("X-Compression-Codec", codec)
       headers.set("X-Original-Size", metadata.originalSize.toString())
       headers.set("X-Compressed-Size", metadata.size.toString())
       headers.set("X-Compression-Ratio", metadata.compressionRatio.toString())
     }
 
-    console.log("Download API - Serving file:", metadata.name, "Size:", fileBuffer.length)
+    console.log("Download API - Serving file:", metadata.originalName, "Size:", fileBuffer.length)
 
     return new NextResponse(fileBuffer, {
       status: 200,
@@ -1,7 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { unlink } from "fs/promises"
-import { existsSync } from "fs"
-import path from "path"
+import { getStorage } from "@/lib/storage"
+import { deleteFile, readMetadata, writeMetadata } from "@/lib/metadata"
+import { computeExpiresAt, isExpired, isValidLifetime } from "@/lib/expiry"
+import { isOwner, ownerTokenFrom } from "@/lib/owner-token"
+import { refreshCollectionExpiry } from "@/lib/collections"
+
+const MAX_FILE_NAME_LENGTH = 255
 
 export async function DELETE(request: NextRequest, { params }: { params: { fileId: string } }) {
   try {
@@ -11,33 +15,30 @@ export async function DELETE(request: NextRequest, { params }: { params: { fileI
       return NextResponse.json({ error: "File ID is required" }, { status: 400 })
     }
 
-    const uploadsDir = path.join(process.cwd(), "uploads", "files")
-    const metadataPath = path.join(uploadsDir, `${fileId}.json`)
+    const ownerToken = ownerTokenFrom(request)
+    if (!ownerToken) {
+      return NextResponse.json({ error: "Owner token required" }, { status: 401 })
+    }
+
+    const storage = getStorage()
 
     console.log("Deleting file:", fileId)
-    console.log("Metadata path:", metadataPath)
 
-    if (!existsSync(metadataPath)) {
+    // Read metadata to get the storage key
+    const metadata = await readMetadata(storage, fileId)
+    if (!metadata) {
       console.log("Metadata file not found")
       return NextResponse.json({ error: "File not found" }, { status: 404 })
     }
 
-    // Read metadata to get file path
-    const { readFile } = await import("fs/promises")
-    const metadataBuffer = await readFile(metadataPath)
-    const metadata = JSON.parse(metadataBuffer.toString())
-
-    console.log("Found metadata:", metadata)
-
-    // Delete actual file
-    if (existsSync(metadata.path)) {
-      await unlink(metadata.path)
-      console.log("Deleted actual file:", metadata.path)
+    if (!isOwner(metadata, ownerToken)) {
+      console.log("Delete rejected, owner token does not match:", fileId)
+      return NextResponse.json({ error: "Invalid owner token" }, { status: 403 })
     }
 
-    // Delete metadata file
-    await unlink(metadataPath)
-    console.log("Deleted metadata file:", metadataPath)
+    // Delete actual file and metadata
+    await deleteFile(storage, metadata)
+    console.log("Deleted file and metadata:", fileId)
 
     return NextResponse.json({ success: true })
   } catch (error) {
@@ -45,3 +46,73 @@ export async function DELETE(request: NextRequest, { params }: { params: { fileI
     return NextResponse.json({ error: "Delete failed" }, { status: 500 })
   }
 }
+
+/*
+ * Lets the uploader extend (or shorten) the lifetime and rename the file.
+ * lifetimeHours counts from now and is held to the same bounds as at upload.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { fileId: string } }) {
+  try {
+    const { fileId } = params
+    const { lifetimeHours, originalName } = await request.json()
+
+    if (lifetimeHours === undefined && originalName === undefined) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 })
+    }
+
+    if (lifetimeHours !== undefined && !isValidLifetime(lifetimeHours)) {
+      return NextResponse.json({ error: "Invalid lifetimeHours" }, { status: 400 })
+    }
+
+    if (
+      originalName !== undefined &&
+      (typeof originalName !== "string" ||
+        !originalName.trim() ||
+        originalName.length > MAX_FILE_NAME_LENGTH ||
+        originalName.includes("/"))
+    ) {
+      return NextResponse.json({ error: "Invalid originalName" }, { status: 400 })
+    }
+
+    const ownerToken = ownerTokenFrom(request)
+    if (!ownerToken) {
+      return NextResponse.json({ error: "Owner token required" }, { status: 401 })
+    }
+
+    const storage = getStorage()
+    const metadata = await readMetadata(storage, fileId)
+    if (!metadata) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 })
+    }
+
+    if (!isOwner(metadata, ownerToken)) {
+      console.log("Update rejected, owner token does not match:", fileId)
+      return NextResponse.json({ error: "Invalid owner token" }, { status: 403 })
+    }
+
+    // Cleanup may already be deleting it; an expired file is not brought back
+    if (isExpired(metadata)) {
+      return NextResponse.json({ error: "File has expired and has been deleted" }, { status: 410 })
+    }
+
+    const updated = {
+      ...metadata,
+      ...(lifetimeHours !== undefined && { expiresAt: computeExpiresAt(new Date().toISOString(), lifetimeHours) }),
+      ...(originalName !== undefined && { originalName: originalName.trim() }),
+    }
+    await writeMetadata(storage, updated)
+
+    console.log("Updated file:", fileId, "expires at", updated.expiresAt, "name", updated.originalName)
+
+    // Collections go away with the last of their files, so theirs moves along with it
+    if (lifetimeHours !== undefined) {
+      const collections = await refreshCollectionExpiry(storage, fileId)
+      console.log("Updated expiry of collections containing", fileId, ":", collections)
+    }
+
+    return NextResponse.json({ success: true, expiresAt: updated.expiresAt, originalName: updated.originalName })
+  } catch (error) {
+    console.error("Update error:", error)
+    return NextResponse.json({ error: "Update failed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { readMetadata } from "@/lib/metadata"
+import { isExpired } from "@/lib/expiry"
+import { createUnlockToken, isPasswordProtected, verifyPassword } from "@/lib/link-password"
+import { clientAddressOf, recordFailedUnlock, unlockRetryAfter } from "@/lib/unlock-throttle"
+
+/*
+ * Exchanges the link password for a short-lived unlock token, which the download
+ * page sends along to get-metadata and download-stream.
+ */
+export async function POST(request: NextRequest, { params }: { params: { fileId: string } }) {
+  try {
+    const { fileId } = params
+    const { password } = await request.json().catch(() => ({}))
+
+    if (typeof password !== "string" || !password) {
+      return NextResponse.json({ error: "Password is required" }, { status: 400 })
+    }
+
+    const storage = getStorage()
+    const metadata = await readMetadata(storage, fileId)
+    if (!metadata || isExpired(metadata)) {
+      return NextResponse.json({ error: "File not found or expired" }, { status: 404 })
+    }
+
+    if (!isPasswordProtected(metadata)) {
+      return NextResponse.json({ error: "File is not password protected" }, { status: 400 })
+    }
+
+    // Checked before the password, so a throttled client learns nothing from its guesses
+    const address = clientAddressOf(request)
+    const retryAfterMs = await unlockRetryAfter(storage, fileId, address)
+    if (retryAfterMs > 0) {
+      console.log("Too many wrong passwords, throttling unlock of file:", fileId)
+      return NextResponse.json(
+        { error: "Too many attempts", retryAfter: Math.ceil(retryAfterMs / 1000) },
+        { status: 429, headers: { "Retry-After": Math.ceil(retryAfterMs / 1000).toString() } },
+      )
+    }
+
+    if (!(await verifyPassword(password, metadata.passwordHash!))) {
+      console.log("Wrong password for file:", fileId)
+      await recordFailedUnlock(storage, fileId, address)
+      return NextResponse.json({ error: "Incorrect password" }, { status: 403 })
+    }
+
+    const { token, expiresAt } = createUnlockToken(fileId)
+    console.log("Unlocked file:", fileId, "until", expiresAt.toISOString())
+
+    return NextResponse.json({ token, expiresAt: expiresAt.toISOString() })
+  } catch (error) {
+    console.error("Unlock error:", error)
+    return NextResponse.json({ error: "Failed to unlock file" }, { status: 500 })
+  }
+}
@@ -1,25 +1,50 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { put } from "@vercel/blob"
+import { getStorage } from "@/lib/storage"
+import { type FileMetadata, readMetadata, writeMetadata } from "@/lib/metadata"
+import { isOwner, ownerTokenFrom } from "@/lib/owner-token"
 
 /**
  *  クライアントから送られて来たメタデータ(JSON)を
- *  別ファイルとして Blob に保存するだけなので 413 の心配がない
+ *  別ファイルとしてストレージに保存するだけなので 413 の心配がない
+ *  既存のファイルの編集のみで、オーナートークンが必要
  */
 export async function POST(req: NextRequest) {
   try {
-    const token = process.env.BLOB_READ_WRITE_TOKEN
-    if (!token) {
-      return NextResponse.json({ error: "BLOB_READ_WRITE_TOKEN not set" }, { status: 500 })
+    const storage = getStorage()
+
+    const meta = (await req.json()) as FileMetadata
+    if (!meta?.id) {
+      return NextResponse.json({ error: "File ID is required" }, { status: 400 })
+    }
+
+    const ownerToken = ownerTokenFrom(req)
+    if (!ownerToken) {
+      return NextResponse.json({ error: "Owner token required" }, { status: 401 })
+    }
+
+    // New records only come from the upload routes, which issue the owner token
+    const existing = await readMetadata(storage, meta.id)
+    if (!existing) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 })
+    }
+
+    if (!isOwner(existing, ownerToken)) {
+      return NextResponse.json({ error: "Invalid owner token" }, { status: 403 })
     }
 
-    const meta = await req.json()
-    const blob = await put(`metadata_${meta.id}.json`, JSON.stringify(meta), {
-      access: "public",
-      token,
-      addRandomSuffix: false,
+    // Where the file lives, its secrets and its lifetime stay as the server recorded them
+    const stored = await writeMetadata(storage, {
+      ...meta,
+      id: existing.id,
+      uploadedAt: existing.uploadedAt,
+      expiresAt: existing.expiresAt,
+      passwordHash: existing.passwordHash,
+      ownerTokenHash: existing.ownerTokenHash,
+      storageKey: existing.storageKey,
+      blobUrl: existing.blobUrl,
     })
 
-    return NextResponse.json({ success: true, metadataUrl: blob.url })
+    return NextResponse.json({ success: true, metadataKey: stored.key })
   } catch (e) {
     return NextResponse.json({ error: e instanceof Error ? e.message : "Unknown error" }, { status: 500 })
   }
@@ -1,7 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { readFile } from "fs/promises"
-import { existsSync } from "fs"
-import path from "path"
+import { getStorage } from "@/lib/storage"
+import { getStorageKey, metadataKey, readMetadata, toPublicMetadata } from "@/lib/metadata"
+import { getExpiresAt, isExpired } from "@/lib/expiry"
+import { isUnlocked, unlockTokenFrom } from "@/lib/link-password"
+import { signPath } from "@/lib/signed-url"
 
 export async function GET(request: NextRequest, { params }: { params: { fileId: string } }) {
   try {
@@ -11,47 +13,45 @@ export async function GET(request: NextRequest, { params }: { params: { fileId:
       return NextResponse.json({ error: "File ID is required" }, { status: 400 })
     }
 
-    const uploadsDir = path.join(process.cwd(), "uploads", "files")
-    const metadataPath = path.join(uploadsDir, `${fileId}.json`)
+    const storage = getStorage()
 
-    console.log("Share API - Looking for metadata at:", metadataPath)
+    console.log("Share API - Looking for metadata at:", metadataKey(fileId))
 
-    if (!existsSync(metadataPath)) {
-      console.log("Share API - Metadata file not found:", metadataPath)
+    // Read metadata
+    const metadata = await readMetadata(storage, fileId)
+    if (!metadata) {
+      console.log("Share API - Metadata file not found:", metadataKey(fileId))
       return NextResponse.json({ error: "File not found" }, { status: 404 })
     }
 
-    // Read metadata
-    const metadataBuffer = await readFile(metadataPath)
-    const metadata = JSON.parse(metadataBuffer.toString())
-
-    console.log("Share API - Found metadata:", metadata)
+    console.log("Share API - Found metadata:", toPublicMetadata(metadata))
 
     // Check if file still exists
-    if (!existsSync(metadata.path)) {
-      console.log("Share API - Actual file not found:", metadata.path)
+    if (!(await storage.head(getStorageKey(metadata)))) {
+      console.log("Share API - Actual file not found:", getStorageKey(metadata))
       return NextResponse.json({ error: "File no longer available" }, { status: 404 })
     }
 
-    // Check if file is expired (24 hours)
-    const uploadTime = new Date(metadata.uploadedAt).getTime()
-    const now = Date.now()
-    const twentyFourHours = 24 * 60 * 60 * 1000
-
-    if (now - uploadTime > twentyFourHours) {
+    // Check if file is expired
+    if (isExpired(metadata)) {
       console.log("Share API - File expired")
       return NextResponse.json({ error: "File has expired" }, { status: 410 })
     }
 
+    // Even the file name stays hidden until the password was entered
+    if (!isUnlocked(metadata, unlockTokenFrom(request))) {
+      return NextResponse.json({ error: "Password required", passwordRequired: true }, { status: 401 })
+    }
+
     // Return share information
     return NextResponse.json({
       id: metadata.id,
-      name: metadata.name,
+      name: metadata.originalName,
       size: metadata.size,
       uploadedAt: metadata.uploadedAt,
-      downloadUrl: `/api/download/${fileId}`,
+      downloadUrl: await signPath(`/api/download/${fileId}`),
       shareUrl: `${request.nextUrl.origin}/download/${fileId}`,
-      expiresAt: new Date(uploadTime + twentyFourHours).toISOString(),
+      expiresAt: getExpiresAt(metadata).toISOString(),
     })
   } catch (error) {
     console.error("Share info error:", error)
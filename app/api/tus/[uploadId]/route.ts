@@ -0,0 +1,162 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import {
+  TUS_CHECKSUM_ALGORITHMS,
+  TUS_EXTENSIONS,
+  TUS_VERSION,
+  appendTusSegment,
+  completeTusUpload,
+  parseChecksum,
+  readTusUpload,
+  terminateTusUpload,
+  tusHeaders,
+  withoutFileName,
+} from "@/lib/tus"
+import { readMetadata } from "@/lib/metadata"
+import { createOwnerToken, isOwner, ownerTokenFrom } from "@/lib/owner-token"
+
+const notFound = () => new NextResponse(null, { status: 404, headers: tusHeaders() })
+
+const versionMismatch = (request: NextRequest) =>
+  request.headers.get("tus-resumable") !== TUS_VERSION
+    ? new NextResponse(null, { status: 412, headers: tusHeaders({ "Tus-Version": TUS_VERSION }) })
+    : null
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: tusHeaders({
+      "Tus-Version": TUS_VERSION,
+      "Tus-Extension": TUS_EXTENSIONS,
+      "Tus-Checksum-Algorithm": TUS_CHECKSUM_ALGORITHMS.join(","),
+    }),
+  })
+}
+
+// Current offset, used by clients to resume
+export async function HEAD(request: NextRequest, { params }: { params: { uploadId: string } }) {
+  try {
+    const mismatch = versionMismatch(request)
+    if (mismatch) return mismatch
+
+    const storage = getStorage()
+    const upload = await readTusUpload(storage, params.uploadId)
+    if (!upload) return notFound()
+
+    const headers = tusHeaders({
+      "Upload-Offset": upload.offset.toString(),
+      "Upload-Length": upload.length.toString(),
+    })
+    // The id is the public file id, so the name only goes back to whoever holds the owner token,
+    // which exists once the upload is complete
+    const metadata = upload.completedAt ? await readMetadata(storage, upload.id) : null
+    const uploadMetadata =
+      metadata && isOwner(metadata, ownerTokenFrom(request)) ? upload.metadata : withoutFileName(upload.metadata)
+    if (uploadMetadata) {
+      headers.set("Upload-Metadata", uploadMetadata)
+    }
+    if (upload.completedAt) {
+      headers.set("X-Share-Url", `${request.nextUrl.origin}/download/${upload.id}`)
+    }
+
+    return new NextResponse(null, { status: 200, headers })
+  } catch (error) {
+    console.error("tus HEAD error:", error)
+    return new NextResponse(null, { status: 500, headers: tusHeaders() })
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { uploadId: string } }) {
+  try {
+    const mismatch = versionMismatch(request)
+    if (mismatch) return mismatch
+
+    if (request.headers.get("content-type") !== "application/offset+octet-stream") {
+      return new NextResponse(null, { status: 415, headers: tusHeaders() })
+    }
+
+    const storage = getStorage()
+    const upload = await readTusUpload(storage, params.uploadId)
+    if (!upload) return notFound()
+
+    const offset = Number(request.headers.get("upload-offset"))
+    if (offset !== upload.offset) {
+      console.log("tus offset conflict:", upload.id, "expected", upload.offset, "got", offset)
+      return new NextResponse(null, { status: 409, headers: tusHeaders({ "Upload-Offset": upload.offset.toString() }) })
+    }
+
+    const tooLarge = () =>
+      NextResponse.json({ error: "Upload exceeds Upload-Length" }, { status: 413, headers: tusHeaders() })
+
+    // Refused up front when the client announces the size; otherwise the stream is cut off at Upload-Length
+    const contentLength = request.headers.get("content-length")
+    if (contentLength && upload.offset + Number(contentLength) > upload.length) {
+      return tooLarge()
+    }
+
+    // tus checksum extension
+    const checksumHeader = request.headers.get("upload-checksum")
+    const checksum = checksumHeader ? parseChecksum(checksumHeader) : undefined
+    if (checksum === null) {
+      return NextResponse.json({ error: "Unsupported checksum algorithm" }, { status: 400, headers: tusHeaders() })
+    }
+
+    if (request.body) {
+      const result = await appendTusSegment(storage, upload, request.body, checksum)
+      if (result === "too-large") {
+        return tooLarge()
+      }
+      if (result === "checksum-mismatch") {
+        return new NextResponse(null, { status: 460, statusText: "Checksum Mismatch", headers: tusHeaders() })
+      }
+      if (result === "offset-conflict") {
+        // Another PATCH for the same offset was recorded first
+        const current = await readTusUpload(storage, upload.id)
+        console.log("tus offset conflict while appending:", upload.id, "at", offset)
+        return new NextResponse(null, {
+          status: 409,
+          headers: tusHeaders({ "Upload-Offset": (current?.offset ?? upload.offset).toString() }),
+        })
+      }
+    }
+
+    const headers = tusHeaders({ "Upload-Offset": upload.offset.toString() })
+
+    if (upload.offset === upload.length && !upload.completedAt) {
+      const owner = createOwnerToken()
+      const metadata = await completeTusUpload(storage, upload, owner.hash)
+      console.log("tus upload completed:", metadata.id, metadata.originalName)
+      headers.set("X-Share-Url", `${request.nextUrl.origin}/download/${upload.id}`)
+      // tus has no response body, so the token travels next to the share URL
+      headers.set("X-Owner-Token", owner.token)
+    }
+
+    return new NextResponse(null, { status: 204, headers })
+  } catch (error) {
+    console.error("tus PATCH error:", error)
+    return NextResponse.json(
+      { error: `Upload failed: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500, headers: tusHeaders() },
+    )
+  }
+}
+
+// tus termination extension
+export async function DELETE(request: NextRequest, { params }: { params: { uploadId: string } }) {
+  try {
+    const mismatch = versionMismatch(request)
+    if (mismatch) return mismatch
+
+    const storage = getStorage()
+    const upload = await readTusUpload(storage, params.uploadId)
+    if (!upload) return notFound()
+
+    await terminateTusUpload(storage, upload)
+    console.log("tus upload terminated:", upload.id)
+
+    return new NextResponse(null, { status: 204, headers: tusHeaders() })
+  } catch (error) {
+    console.error("tus DELETE error:", error)
+    return new NextResponse(null, { status: 500, headers: tusHeaders() })
+  }
+}
@@ -0,0 +1,85 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { createFileId } from "@/lib/metadata"
+import { DEFAULT_LIFETIME_HOURS, isValidLifetime } from "@/lib/expiry"
+import {
+  TUS_CHECKSUM_ALGORITHMS,
+  TUS_EXTENSIONS,
+  TUS_UPLOAD_LIFETIME_MS,
+  TUS_VERSION,
+  type TusUpload,
+  completeTusUpload,
+  parseUploadMetadata,
+  tusHeaders,
+  writeTusUpload,
+} from "@/lib/tus"
+import { createOwnerToken } from "@/lib/owner-token"
+
+// tus server capabilities
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: tusHeaders({
+      "Tus-Version": TUS_VERSION,
+      "Tus-Extension": TUS_EXTENSIONS,
+      "Tus-Checksum-Algorithm": TUS_CHECKSUM_ALGORITHMS.join(","),
+    }),
+  })
+}
+
+// tus creation extension
+export async function POST(request: NextRequest) {
+  try {
+    if (request.headers.get("tus-resumable") !== TUS_VERSION) {
+      return new NextResponse(null, { status: 412, headers: tusHeaders({ "Tus-Version": TUS_VERSION }) })
+    }
+
+    const lengthHeader = request.headers.get("upload-length")
+    const length = lengthHeader !== null && /^\d+$/.test(lengthHeader) ? Number(lengthHeader) : NaN
+    if (!Number.isSafeInteger(length)) {
+      return NextResponse.json({ error: "Upload-Length is required" }, { status: 400, headers: tusHeaders() })
+    }
+
+    const metadataHeader = request.headers.get("upload-metadata") || ""
+    const uploadMetadata = parseUploadMetadata(metadataHeader)
+    const fileName = uploadMetadata.filename || uploadMetadata.name || "upload"
+    const lifetimeHours = uploadMetadata.lifetime ? Number(uploadMetadata.lifetime) : DEFAULT_LIFETIME_HOURS
+    if (!isValidLifetime(lifetimeHours)) {
+      return NextResponse.json({ error: "Invalid lifetime" }, { status: 400, headers: tusHeaders() })
+    }
+
+    const storage = getStorage()
+    const upload: TusUpload = {
+      id: createFileId(),
+      length,
+      offset: 0,
+      metadata: metadataHeader,
+      fileName,
+      lifetimeHours,
+      segments: [],
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + TUS_UPLOAD_LIFETIME_MS).toISOString(),
+    }
+
+    await writeTusUpload(storage, upload)
+    console.log("Created tus upload:", upload.id, fileName, length)
+
+    const headers = tusHeaders({ Location: `${request.nextUrl.origin}/api/tus/${upload.id}` })
+
+    // Nothing to wait for with an empty file
+    if (length === 0) {
+      const owner = createOwnerToken()
+      await completeTusUpload(storage, upload, owner.hash)
+      headers.set("X-Share-Url", `${request.nextUrl.origin}/download/${upload.id}`)
+      headers.set("X-Owner-Token", owner.token)
+    }
+
+    return new NextResponse(null, { status: 201, headers })
+  } catch (error) {
+    console.error("tus creation error:", error)
+    return NextResponse.json(
+      { error: `Upload creation failed: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500, headers: tusHeaders() },
+    )
+  }
+}
@@ -1,18 +1,16 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { put } from "@vercel/blob"
+import { getStorage } from "@/lib/storage"
+import { type FileMetadata, createFileId, fileKey, metadataKey, writeMetadata } from "@/lib/metadata"
+import { DEFAULT_CODEC, isCompressionCodec } from "@/lib/codecs"
+import { DEFAULT_LIFETIME_HOURS, computeExpiresAt, isValidLifetime } from "@/lib/expiry"
+import { isValidMaxDownloads } from "@/lib/download-limit"
+import { hashPassword, isValidPassword } from "@/lib/link-password"
+import { signPath } from "@/lib/signed-url"
+import { createOwnerToken } from "@/lib/owner-token"
 
 export async function POST(request: NextRequest) {
   try {
-    const token = process.env.BLOB_READ_WRITE_TOKEN
-
-    if (!token) {
-      return NextResponse.json(
-        {
-          error: "BLOB_READ_WRITE_TOKEN is not configured. Please set up Vercel Blob storage.",
-        },
-        { status: 500 },
-      )
-    }
+    const storage = getStorage()
 
     const formData = await request.formData()
     const file = formData.get("file") as File
@@ -20,56 +18,71 @@ export async function POST(request: NextRequest) {
     const originalSize = formData.get("originalSize") as string
     const compressed = formData.get("compressed") === "true"
     const compressionRatio = Number.parseFloat(formData.get("compressionRatio") as string) || 0
+    const codec = (formData.get("codec") as string | null) ?? DEFAULT_CODEC
+    const lifetimeHours = formData.has("lifetimeHours") ? Number(formData.get("lifetimeHours")) : DEFAULT_LIFETIME_HOURS
+    const maxDownloads = formData.has("maxDownloads") ? Number(formData.get("maxDownloads")) : undefined
+    const password = formData.get("password") ?? undefined
 
     if (!file) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 })
     }
 
+    if (!isCompressionCodec(codec)) {
+      return NextResponse.json({ error: "Unknown compression codec" }, { status: 400 })
+    }
+
+    if (!isValidLifetime(lifetimeHours)) {
+      return NextResponse.json({ error: "Invalid lifetimeHours" }, { status: 400 })
+    }
+
+    if (maxDownloads !== undefined && !isValidMaxDownloads(maxDownloads)) {
+      return NextResponse.json({ error: "Invalid maxDownloads" }, { status: 400 })
+    }
+
+    if (password !== undefined && !isValidPassword(password)) {
+      return NextResponse.json({ error: "Invalid password" }, { status: 400 })
+    }
+
     console.log("Uploading file:", fileName, "Size:", file.size, "Compressed:", compressed)
 
-    // Generate unique filename
-    const timestamp = Date.now()
-    const randomId = Math.random().toString(36).substr(2, 9)
-    const fileId = `${timestamp}_${randomId}`
-    const blobFileName = `${fileId}_${compressed ? fileName + ".gz" : fileName}`
+    // Generated here, never taken from the client, so an upload cannot replace another file
+    const fileId = createFileId()
 
-    // Upload to Vercel Blob with explicit token
-    const blob = await put(blobFileName, file, {
-      access: "public",
-      addRandomSuffix: false,
-      token: token,
-      multipart: true, // ← ★ 追加：必ずマルチパートで送信
-    })
+    // Blob の場合は File を渡すとマルチパートで送信される
+    const stored = await storage.put(fileKey(fileId, fileName, compressed, codec), file)
 
-    console.log("File uploaded to blob:", blob.url)
+    console.log("File uploaded to storage:", stored.key)
 
-    // Store metadata in a separate blob
-    const metadata = {
+    // Store metadata in a separate object
+    const owner = createOwnerToken()
+    const uploadedAt = new Date().toISOString()
+    const metadata: FileMetadata = {
       id: fileId,
       originalName: fileName,
       size: file.size,
       originalSize: Number.parseInt(originalSize),
       compressed,
+      codec: compressed ? codec : undefined,
       compressionRatio,
-      uploadedAt: new Date().toISOString(),
-      blobUrl: blob.url,
+      uploadedAt,
+      expiresAt: computeExpiresAt(uploadedAt, lifetimeHours),
+      maxDownloads,
+      passwordHash: password === undefined ? undefined : await hashPassword(password),
+      ownerTokenHash: owner.hash,
+      storageKey: stored.key,
     }
 
-    const metadataBlob = await put(`metadata_${fileId}.json`, JSON.stringify(metadata), {
-      access: "public",
-      addRandomSuffix: false,
-      token: token,
-    })
+    await writeMetadata(storage, metadata)
 
-    console.log("Metadata uploaded:", metadataBlob.url)
+    console.log("Metadata uploaded:", metadataKey(fileId))
 
     return NextResponse.json({
       success: true,
       fileId: fileId,
-      blobUrl: blob.url,
-      downloadUrl: `/api/download-blob?url=${encodeURIComponent(blob.url)}&name=${encodeURIComponent(fileName)}&compressed=${compressed}`,
+      downloadUrl: await signPath(`/api/download-stream/${fileId}`),
       shareUrl: `${request.nextUrl.origin}/download/${fileId}`,
-      metadata: metadataBlob.url,
+      metadata: metadataKey(fileId),
+      ownerToken: owner.token,
     })
   } catch (error) {
     // Blob SDK が想定外の応答を受けた場合も文字列としてログに残す
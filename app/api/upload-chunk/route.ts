@@ -1,54 +1,127 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { put, del } from "@vercel/blob"
+import { getStorage, type UploadedPart } from "@/lib/storage"
+import {
+  claimCompletion,
+  completeUploadSession,
+  releaseCompletion,
+  expectedChunkSize,
+  listReceivedChunks,
+  missingChunks,
+  readUploadSession,
+  recordChunk,
+  recordUploadTotals,
+  resolveUploadSession,
+} from "@/lib/upload-session"
+import { isValidFrames } from "@/lib/compression-frames"
+import { sha256Hex } from "@/lib/checksum"
+import { signPath } from "@/lib/signed-url"
+import { createOwnerToken } from "@/lib/owner-token"
+import { readMetadata } from "@/lib/metadata"
 
 export async function POST(request: NextRequest) {
   try {
-    const token = process.env.BLOB_READ_WRITE_TOKEN
-
-    if (!token) {
-      return NextResponse.json({ error: "BLOB_READ_WRITE_TOKEN is not configured" }, { status: 500 })
-    }
+    const storage = getStorage()
 
     const formData = await request.formData()
     const chunk = formData.get("chunk") as File
     const chunkIndex = Number.parseInt(formData.get("chunkIndex") as string)
-    const totalChunks = Number.parseInt(formData.get("totalChunks") as string)
-    const fileId = formData.get("fileId") as string
-    const fileName = formData.get("fileName") as string
-    const originalSize = Number.parseInt(formData.get("originalSize") as string)
-    const compressed = formData.get("compressed") === "true"
-    const compressionRatio = Number.parseFloat(formData.get("compressionRatio") as string) || 0
-
-    if (!chunk || !fileId || !fileName) {
+    const sessionId = formData.get("sessionId") as string
+    const checksum = formData.get("checksum") as string | null
+
+    if (!chunk || !sessionId || Number.isNaN(chunkIndex)) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
     }
 
-    console.log(`Uploading chunk ${chunkIndex + 1}/${totalChunks} for file: ${fileName} (${chunk.size} bytes)`)
+    const session = await readUploadSession(storage, sessionId)
+    if (!session) {
+      return NextResponse.json({ error: "Upload session not found" }, { status: 404 })
+    }
 
-    try {
-      // Store chunk temporarily in Vercel Blob with retry logic
-      const chunkPath = `temp/${fileId}/chunk_${chunkIndex.toString().padStart(4, "0")}`
+    // A retry after the completing response got lost, or a chunk that raced the completing one.
+    // The owner token was only handed out with the first response and is not repeated.
+    if (session.completedAt) {
+      const metadata = await readMetadata(storage, session.id)
+      if (!metadata) {
+        return NextResponse.json({ error: "Upload session is already completed" }, { status: 409 })
+      }
+      return NextResponse.json({
+        success: true,
+        completed: true,
+        fileId: session.id,
+        downloadUrl: await signPath(`/api/download-stream/${session.id}`),
+        shareUrl: `${request.nextUrl.origin}/download/${session.id}`,
+        expiresAt: metadata.expiresAt,
+      })
+    }
+
+    // The final chunk of a streamed upload carries the totals that were unknown at creation
+    const isFinal = formData.get("final") === "true"
+    if (isFinal && session.totalChunks === undefined) {
+      const totals = {
+        size: Number.parseInt(formData.get("size") as string),
+        totalChunks: Number.parseInt(formData.get("totalChunks") as string),
+        compressionRatio: Number.parseFloat(formData.get("compressionRatio") as string) || 0,
+        frames: formData.get("frames") ? JSON.parse(formData.get("frames") as string) : undefined,
+      }
+
+      if (
+        totals.totalChunks !== chunkIndex + 1 ||
+        totals.size !== chunkIndex * session.chunkSize + chunk.size ||
+        (totals.frames !== undefined && !(session.compressed && isValidFrames(totals.frames, session.originalSize)))
+      ) {
+        return NextResponse.json({ error: "Invalid totals in final chunk" }, { status: 400 })
+      }
+
+      await recordUploadTotals(storage, session, totals)
+    }
+
+    const resolvedBefore = await resolveUploadSession(storage, session)
+    const expectedSize = resolvedBefore ? expectedChunkSize(resolvedBefore, chunkIndex) : session.chunkSize
+
+    if (chunkIndex < 0 || (resolvedBefore && chunkIndex >= resolvedBefore.totalChunks)) {
+      return NextResponse.json({ error: "Invalid chunk index" }, { status: 400 })
+    }
+
+    if (chunk.size !== expectedSize) {
+      return NextResponse.json(
+        { error: `Chunk ${chunkIndex} should be ${expectedSize} bytes, got ${chunk.size}` },
+        { status: 400 },
+      )
+    }
 
-      let chunkBlob
+    // Verify the chunk before it becomes part of the file; the client simply sends it again
+    const chunkData = new Uint8Array(await chunk.arrayBuffer())
+    if (checksum) {
+      const actual = await sha256Hex(chunkData)
+      if (actual !== checksum) {
+        console.log(`Checksum mismatch for chunk ${chunkIndex} of ${sessionId}: expected ${checksum}, got ${actual}`)
+        return NextResponse.json(
+          { error: `Checksum mismatch for chunk ${chunkIndex}`, retryable: true },
+          { status: 422 },
+        )
+      }
+    }
+
+    console.log(
+      `Uploading chunk ${chunkIndex + 1}/${session.totalChunks ?? "?"} for file: ${session.fileName} (${chunk.size} bytes)`,
+    )
+
+    try {
+      // Each chunk is one part of the session's multipart upload into the final object
+      let part: UploadedPart | undefined
       let retryCount = 0
       const maxRetries = 3
 
-      while (retryCount < maxRetries) {
+      while (!part) {
         try {
-          chunkBlob = await put(chunkPath, chunk, {
-            access: "public",
-            token: token,
-            addRandomSuffix: false,
-            multipart: true,
-          })
-          break
-        } catch (putError) {
+          part = await storage.uploadPart(session.multipart, chunkIndex + 1, chunkData)
+        } catch (partError) {
           retryCount++
-          console.error(`Chunk upload attempt ${retryCount} failed:`, putError)
+          console.error(`Chunk upload attempt ${retryCount} failed:`, partError)
 
           if (retryCount >= maxRetries) {
             throw new Error(
-              `Failed to upload chunk after ${maxRetries} attempts: ${putError instanceof Error ? putError.message : "Unknown error"}`,
+              `Failed to upload chunk after ${maxRetries} attempts: ${partError instanceof Error ? partError.message : "Unknown error"}`,
             )
           }
 
@@ -57,131 +130,54 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      if (!chunkBlob) {
-        throw new Error("Failed to upload chunk")
+      await recordChunk(storage, session, chunkIndex, part)
+      console.log(`Chunk ${chunkIndex + 1} uploaded successfully`)
+
+      // Chunks may arrive in any order; assemble once none is missing
+      const resolved = resolvedBefore ?? (await resolveUploadSession(storage, session))
+      const received = await listReceivedChunks(storage, session)
+      const missing = resolved ? missingChunks(resolved, received) : null
+
+      // Parallel chunks can all see the upload complete; only one of them may assemble it
+      const claim = resolved && missing?.length === 0 ? await claimCompletion(storage, resolved) : null
+      if (resolved && missing?.length === 0 && !claim) {
+        console.log("All chunks received, another request is completing:", session.id)
+        return NextResponse.json({
+          success: true,
+          completed: false,
+          completing: true,
+          chunkIndex,
+          totalChunks: resolved.totalChunks,
+          missingChunks: [],
+        })
       }
 
-      console.log(`Chunk ${chunkIndex + 1} uploaded successfully:`, chunkBlob.url)
-
-      // If this is the last chunk, combine all chunks
-      if (chunkIndex === totalChunks - 1) {
-        console.log("Last chunk received, starting file combination...")
+      if (resolved && missing?.length === 0) {
+        console.log("All chunks received, completing multipart upload...")
 
         try {
-          // Get base URL from the uploaded chunk
-          const baseUrl = chunkBlob.url.split(`/temp/${fileId}`)[0]
-          const chunks: Uint8Array[] = []
-
-          // Fetch all chunks with enhanced retry logic
-          for (let i = 0; i < totalChunks; i++) {
-            const padded = i.toString().padStart(4, "0")
-            const tempChunkUrl = `${baseUrl}/temp/${fileId}/chunk_${padded}`
-
-            let chunkData: ArrayBuffer | null = null
-            let fetchRetries = 0
-            const maxFetchRetries = 5
-
-            while (fetchRetries < maxFetchRetries && !chunkData) {
-              try {
-                const res = await fetch(tempChunkUrl)
-                if (res.ok) {
-                  chunkData = await res.arrayBuffer()
-                } else {
-                  throw new Error(`HTTP ${res.status}: ${res.statusText}`)
-                }
-              } catch (fetchError) {
-                fetchRetries++
-                console.error(`Fetch chunk ${i} attempt ${fetchRetries} failed:`, fetchError)
-
-                if (fetchRetries >= maxFetchRetries) {
-                  throw new Error(`Failed to fetch chunk ${i} after ${maxFetchRetries} attempts`)
-                }
-
-                // Exponential backoff
-                await new Promise((resolve) => setTimeout(resolve, 500 * Math.pow(2, fetchRetries - 1)))
-              }
-            }
-
-            if (chunkData) {
-              chunks.push(new Uint8Array(chunkData))
-              console.log(`Successfully fetched chunk ${i} (${chunkData.byteLength} bytes)`)
-            } else {
-              throw new Error(`Failed to fetch chunk ${i}`)
-            }
-          }
-
-          // Combine all chunks
-          const totalSize = chunks.reduce((sum, chunk) => sum + chunk.length, 0)
-          const combinedBuffer = new Uint8Array(totalSize)
-          let offset = 0
-
-          for (const chunk of chunks) {
-            combinedBuffer.set(chunk, offset)
-            offset += chunk.length
-          }
-
-          console.log(`Combined ${chunks.length} chunks into ${totalSize} bytes`)
-
-          // Upload final file to Vercel Blob
-          const finalFileName = `files/${fileId}_${compressed ? fileName + ".gz" : fileName}`
-          const finalBlob = await put(finalFileName, combinedBuffer, {
-            access: "public",
-            token,
-            addRandomSuffix: false,
-            multipart: true,
-            contentType: compressed ? "application/gzip" : "application/octet-stream",
-          })
-
-          // Save metadata
-          const metadata = {
-            id: fileId,
-            originalName: fileName,
-            size: combinedBuffer.length,
-            originalSize,
-            compressed,
-            compressionRatio,
-            uploadedAt: new Date().toISOString(),
-            blobUrl: finalBlob.url,
-          }
-
-          const metadataBlob = await put(`metadata_${fileId}.json`, JSON.stringify(metadata), {
-            access: "public",
-            token: token,
-            addRandomSuffix: false,
-          })
-
-          // Clean up temporary chunks
-          console.log("Cleaning up temporary chunks...")
-          const cleanupPromises = []
-          for (let i = 0; i < totalChunks; i++) {
-            const tempChunkPath = `temp/${fileId}/chunk_${i.toString().padStart(4, "0")}`
-            const tempChunkUrl = `${baseUrl}/temp/${fileId}/chunk_${i.toString().padStart(4, "0")}`
-            cleanupPromises.push(
-              del(tempChunkUrl, { token }).catch((error) => {
-                console.log(`Could not delete temp chunk ${i}:`, error)
-              }),
-            )
-          }
-
-          // Wait for cleanup to complete (but don't fail if it doesn't work)
-          await Promise.allSettled(cleanupPromises)
+          const owner = createOwnerToken()
+          const metadata = await completeUploadSession(storage, resolved, owner.hash)
 
-          console.log("File upload completed successfully:", finalBlob.url)
+          console.log("File upload completed successfully:", metadata.storageKey)
 
           return NextResponse.json({
             success: true,
             completed: true,
-            fileId,
-            blobUrl: finalBlob.url,
-            downloadUrl: `/api/download-blob?url=${encodeURIComponent(finalBlob.url)}&name=${encodeURIComponent(fileName)}&compressed=${compressed}`,
-            shareUrl: `${request.nextUrl.origin}/download/${fileId}`,
-            metadata: metadataBlob.url,
+            fileId: session.id,
+            downloadUrl: await signPath(`/api/download-stream/${session.id}`),
+            shareUrl: `${request.nextUrl.origin}/download/${session.id}`,
+            expiresAt: metadata.expiresAt,
+            // Only handed out here; the uploader needs it to delete, extend or edit the file
+            ownerToken: owner.token,
           })
-        } catch (combineError) {
-          console.error("Error combining chunks:", combineError)
+        } catch (completeError) {
+          console.error("Error completing multipart upload:", completeError)
+          // Lets the client's retry of this chunk complete the upload
+          await releaseCompletion(storage, claim!).catch(() => undefined)
           return NextResponse.json(
             {
-              error: `Failed to combine file chunks: ${combineError instanceof Error ? combineError.message : "Unknown error"}`,
+              error: `Failed to combine file chunks: ${completeError instanceof Error ? completeError.message : "Unknown error"}`,
             },
             { status: 500 },
           )
@@ -192,7 +188,8 @@ export async function POST(request: NextRequest) {
         success: true,
         completed: false,
         chunkIndex,
-        totalChunks,
+        totalChunks: resolved?.totalChunks ?? null,
+        missingChunks: missing,
       })
     } catch (uploadError) {
       console.error("Chunk upload error:", uploadError)
@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { listReceivedChunks, missingChunks, readUploadSession, resolveUploadSession } from "@/lib/upload-session"
+
+// Reports which chunks of a session the server already has
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const storage = getStorage()
+    const session = await readUploadSession(storage, params.id)
+
+    if (!session) {
+      return NextResponse.json({ error: "Upload session not found" }, { status: 404 })
+    }
+
+    // The id is also the public file id, so nothing here may tell more than the share link does without a password
+    if (session.completedAt) {
+      return NextResponse.json({ completed: true })
+    }
+
+    const received = await listReceivedChunks(storage, session)
+    // Streamed uploads only know their chunk count once the final chunk is in
+    const resolved = await resolveUploadSession(storage, session)
+
+    return NextResponse.json({
+      id: session.id,
+      totalChunks: resolved ? resolved.totalChunks : null,
+      receivedChunks: received,
+      missingChunks: resolved ? missingChunks(resolved, received) : null,
+      completed: false,
+    })
+  } catch (error) {
+    console.error("Get upload session error:", error)
+    return NextResponse.json(
+      { error: `Failed to get upload session: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 },
+    )
+  }
+}
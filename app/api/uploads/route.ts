@@ -0,0 +1,134 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getStorage, MULTIPART_MIN_PART_SIZE } from "@/lib/storage"
+import { isValidFrames } from "@/lib/compression-frames"
+import { createUploadSession } from "@/lib/upload-session"
+import { isSha256Hex } from "@/lib/checksum"
+import { isCompressionCodec } from "@/lib/codecs"
+import { normalizeRelativePath } from "@/lib/collections"
+import { DEFAULT_LIFETIME_HOURS, MAX_LIFETIME_HOURS, MIN_LIFETIME_HOURS, isValidLifetime } from "@/lib/expiry"
+import { MAX_DOWNLOADS_LIMIT, isValidMaxDownloads } from "@/lib/download-limit"
+import { MAX_PASSWORD_LENGTH, MIN_PASSWORD_LENGTH, hashPassword, isValidPassword } from "@/lib/link-password"
+import { isValidEncryptionParams } from "@/lib/encryption"
+
+/*
+ * Starts an upload session; chunks are then sent to /api/upload-chunk with the returned id.
+ * Streamed uploads (`streaming: true`) leave out size and totalChunks and send them with the final chunk.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      fileName,
+      relativePath,
+      size,
+      chunkSize,
+      totalChunks,
+      originalSize,
+      compressed,
+      codec,
+      compressionRatio,
+      frames,
+      sha256,
+      streaming,
+      lifetimeHours = DEFAULT_LIFETIME_HOURS,
+      maxDownloads,
+      password,
+      encryption,
+    } = await request.json()
+
+    if (!fileName || !Number.isSafeInteger(chunkSize) || chunkSize <= 0) {
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
+    }
+
+    if (streaming && !Number.isSafeInteger(originalSize)) {
+      return NextResponse.json({ error: "originalSize is required for streamed uploads" }, { status: 400 })
+    }
+
+    if (!streaming && (!Number.isSafeInteger(size) || size < 0)) {
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
+    }
+
+    if (!streaming && totalChunks !== Math.max(1, Math.ceil(size / chunkSize))) {
+      return NextResponse.json({ error: "totalChunks does not match size and chunkSize" }, { status: 400 })
+    }
+
+    if ((streaming || totalChunks > 1) && chunkSize < MULTIPART_MIN_PART_SIZE) {
+      return NextResponse.json({ error: `chunkSize must be at least ${MULTIPART_MIN_PART_SIZE} bytes` }, { status: 400 })
+    }
+
+    if (frames !== undefined && !(compressed && isValidFrames(frames, originalSize))) {
+      return NextResponse.json({ error: "Invalid frame index" }, { status: 400 })
+    }
+
+    const normalizedPath = relativePath === undefined ? undefined : normalizeRelativePath(String(relativePath))
+    if (normalizedPath === null) {
+      return NextResponse.json({ error: "Invalid relativePath" }, { status: 400 })
+    }
+
+    if (codec !== undefined && !isCompressionCodec(codec)) {
+      return NextResponse.json({ error: "Unknown compression codec" }, { status: 400 })
+    }
+
+    if (sha256 !== undefined && !isSha256Hex(sha256)) {
+      return NextResponse.json({ error: "sha256 must be a hex SHA-256 digest" }, { status: 400 })
+    }
+
+    if (!isValidLifetime(lifetimeHours)) {
+      return NextResponse.json(
+        { error: `lifetimeHours must be a whole number between ${MIN_LIFETIME_HOURS} and ${MAX_LIFETIME_HOURS}` },
+        { status: 400 },
+      )
+    }
+
+    if (maxDownloads !== undefined && !isValidMaxDownloads(maxDownloads)) {
+      return NextResponse.json(
+        { error: `maxDownloads must be a whole number between 1 and ${MAX_DOWNLOADS_LIMIT}` },
+        { status: 400 },
+      )
+    }
+
+    if (password !== undefined && !isValidPassword(password)) {
+      return NextResponse.json(
+        { error: `password must be between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH} characters` },
+        { status: 400 },
+      )
+    }
+
+    // Ciphertext does not compress, and the server could not inflate what it cannot read
+    if (encryption !== undefined && (!isValidEncryptionParams(encryption) || compressed)) {
+      return NextResponse.json({ error: "Invalid encryption parameters" }, { status: 400 })
+    }
+
+    const session = await createUploadSession(getStorage(), {
+      fileName,
+      relativePath: normalizedPath,
+      size: streaming ? undefined : size,
+      chunkSize,
+      totalChunks: streaming ? undefined : totalChunks,
+      originalSize: originalSize || size,
+      compressed: !!compressed,
+      codec: compressed ? codec : undefined,
+      compressionRatio: compressionRatio || 0,
+      frames,
+      sha256,
+      lifetimeHours,
+      maxDownloads,
+      // Only the hash is kept, already in the session
+      passwordHash: password === undefined ? undefined : await hashPassword(password),
+      encryption,
+    })
+
+    console.log("Created upload session:", session.id, fileName, streaming ? "streamed" : `${totalChunks} chunks`)
+
+    return NextResponse.json({
+      id: session.id,
+      totalChunks: session.totalChunks,
+      chunkSize: session.chunkSize,
+    })
+  } catch (error) {
+    console.error("Create upload session error:", error)
+    return NextResponse.json(
+      { error: `Failed to create upload session: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 },
+    )
+  }
+}
@@ -13,13 +13,20 @@ import {
   Zap,
   CheckCircle,
   Loader2,
+  Flame,
+  Lock,
+  ShieldCheck,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
 import { useToast } from "@/hooks/use-toast"
+import { sha256HexOfBlob } from "@/lib/checksum"
+import { COMPRESSION_CODECS, type CompressionCodec, DEFAULT_CODEC } from "@/lib/codecs"
+import { type EncryptionParams, createDecryptor, importKey } from "@/lib/encryption"
 
 interface FileMetadata {
   id: string
@@ -27,13 +34,20 @@ interface FileMetadata {
   size: number
   originalSize: number
   compressed: boolean
+  codec?: CompressionCodec
   compressionRatio: number
   uploadedAt: string
-  blobUrl: string
+  // Signed and valid for an hour, see lib/signed-url.ts
   downloadUrl: string
   shareUrl: string
   expiresAt?: string
   remainingHours?: number
+  // Only set for files that are deleted after a number of downloads
+  maxDownloads?: number
+  remainingDownloads?: number
+  passwordProtected?: boolean
+  encryption?: EncryptionParams
+  sha256?: string
 }
 
 interface DownloadState {
@@ -52,6 +66,14 @@ export default function DownloadPage() {
   const [fileInfo, setFileInfo] = useState<FileMetadata | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  // Set when the file was deleted by reaching its download limit
+  const [retrievedAt, setRetrievedAt] = useState<string | null>(null)
+  // Password protected files: the token returned by the unlock API opens metadata and download
+  const [passwordRequired, setPasswordRequired] = useState(false)
+  const [password, setPassword] = useState("")
+  const [passwordError, setPasswordError] = useState<string | null>(null)
+  const [unlocking, setUnlocking] = useState(false)
+  const [unlockToken, setUnlockToken] = useState<string | null>(null)
   const [retryCount, setRetryCount] = useState(0)
   const [downloadState, setDownloadState] = useState<DownloadState>({
     status: "idle",
@@ -61,6 +83,7 @@ export default function DownloadPage() {
     speed: 0,
     estimatedTimeRemaining: 0,
   })
+  const [integrity, setIntegrity] = useState<"idle" | "verifying" | "verified" | "mismatch">("idle")
   const { toast } = useToast()
 
   const formatFileSize = (bytes: number) => {
@@ -99,7 +122,10 @@ export default function DownloadPage() {
     }
   }
 
-  const fetchFileInfo = async () => {
+  const unlockHeaders = (token: string | null): Record<string, string> =>
+    token ? { "X-Unlock-Token": token } : {}
+
+  const fetchFileInfo = async (token = unlockToken) => {
     if (!fileId) {
       setError("無効なファイルIDです")
       setLoading(false)
@@ -121,6 +147,7 @@ export default function DownloadPage() {
             headers: {
               "Cache-Control": "no-cache",
               Pragma: "no-cache",
+              ...unlockHeaders(token),
             },
           })
           break
@@ -144,7 +171,7 @@ export default function DownloadPage() {
         console.log("Found metadata:", metadata)
 
         // Validate metadata structure
-        if (!metadata.id || !metadata.originalName || !metadata.blobUrl) {
+        if (!metadata.id || !metadata.originalName) {
           throw new Error("ファイルメタデータが不完全です")
         }
 
@@ -160,11 +187,23 @@ export default function DownloadPage() {
 
         // Enhanced error handling with specific messages
         switch (response!.status) {
+          case 401:
+            if (errorData.passwordRequired) {
+              setPasswordRequired(true)
+            } else {
+              setError(errorData.error || "認証が必要です")
+            }
+            break
           case 404:
             setError("ファイルが見つかりません。リンクが正しいか、ファイルが期限切れでないか確認してください。")
             break
           case 410:
-            setError("ファイルの期限が切れており、自動的に削除されました。")
+            if (errorData.retrieved) {
+              setRetrievedAt(errorData.retrievedAt ?? null)
+              setError("このファイルは既に受け取られ、削除されました。")
+            } else {
+              setError("ファイルの期限が切れており、自動的に削除されました。")
+            }
             break
           case 500:
             setError("サーバーで一時的な問題が発生しています。しばらく待ってから再試行してください。")
@@ -185,6 +224,43 @@ export default function DownloadPage() {
     }
   }
 
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!password) return
+
+    setUnlocking(true)
+    setPasswordError(null)
+    try {
+      const response = await fetch(`/api/files/${fileId}/unlock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        setPasswordError(
+          response.status === 403
+            ? "パスワードが違います"
+            : response.status === 429
+              ? `試行回数が多すぎます。${Math.ceil((errorData.retryAfter ?? 60) / 60)}分ほど待ってから再度お試しください`
+              : errorData.error || `HTTP ${response.status}`,
+        )
+        return
+      }
+
+      const { token } = await response.json()
+      setUnlockToken(token)
+      setPasswordRequired(false)
+      setPassword("")
+      setLoading(true)
+      await fetchFileInfo(token)
+    } catch (err) {
+      setPasswordError(err instanceof Error ? err.message : "不明なエラーが発生しました")
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
   const handleRetry = () => {
     setLoading(true)
     setError(null)
@@ -196,20 +272,42 @@ export default function DownloadPage() {
     if (!fileInfo) return
 
     setDownloadState((prev) => ({ ...prev, status: "downloading", error: undefined }))
+    setIntegrity("idle")
 
     try {
       console.log("Starting streaming download for:", fileInfo.id)
 
       // Use the new streaming download endpoint
-      const response = await fetch(`/api/download-stream/${fileInfo.id}`, {
+      const response = await fetch(fileInfo.downloadUrl, {
         method: "GET",
         headers: {
           "Cache-Control": "no-cache",
+          ...unlockHeaders(unlockToken),
         },
       })
 
       console.log("Download response status:", response.status)
 
+      // The unlock token ran out while the page was open
+      if (response.status === 401) {
+        setUnlockToken(null)
+        setPasswordRequired(true)
+        setPasswordError("時間が経ったため、もう一度パスワードを入力してください")
+        setDownloadState((prev) => ({ ...prev, status: "idle" }))
+        return
+      }
+
+      // The signed URL ran out while the page was open; fetching the info again signs a new one
+      if (response.status === 403) {
+        await fetchFileInfo()
+        setDownloadState((prev) => ({
+          ...prev,
+          status: "error",
+          error: "ダウンロードリンクの期限が切れたため更新しました。もう一度お試しください",
+        }))
+        return
+      }
+
       if (!response.ok) {
         let errorMessage = "ダウンロードに失敗しました"
 
@@ -246,6 +344,15 @@ export default function DownloadPage() {
         throw new Error("レスポンスの読み取りに失敗しました")
       }
 
+      // Encrypted files are decrypted record by record as they arrive, with the key from the URL fragment
+      const encryptionKey = window.location.hash.slice(1)
+      if (fileInfo.encryption && !encryptionKey) {
+        throw new Error("リンクに復号キーが含まれていません。# 以降も含めたリンク全体を開いてください。")
+      }
+      const decryptor = fileInfo.encryption
+        ? createDecryptor(await importKey(encryptionKey), fileInfo.encryption)
+        : null
+
       const chunks: Uint8Array[] = []
       let downloadedBytes = 0
       const startTime = Date.now()
@@ -257,7 +364,7 @@ export default function DownloadPage() {
 
         if (done) break
 
-        chunks.push(value)
+        chunks.push(...(decryptor ? await decryptor.update(value) : [value]))
         downloadedBytes += value.length
 
         // Update progress every 100ms for smooth animation
@@ -283,8 +390,24 @@ export default function DownloadPage() {
         }
       }
 
+      if (decryptor) {
+        chunks.push(...(await decryptor.final()))
+      }
+
       // Create and download the file
       const blob = new Blob(chunks)
+
+      // Compare against the digest the uploader computed before sending the file
+      if (fileInfo.sha256) {
+        setIntegrity("verifying")
+        const digest = await sha256HexOfBlob(blob)
+        if (digest !== fileInfo.sha256) {
+          setIntegrity("mismatch")
+          throw new Error("ファイルの整合性チェックに失敗しました（SHA-256 が一致しません）")
+        }
+        setIntegrity("verified")
+      }
+
       const url = window.URL.createObjectURL(blob)
       const a = document.createElement("a")
       a.href = url
@@ -300,6 +423,10 @@ export default function DownloadPage() {
         progress: 100,
         downloadedBytes: totalBytes,
       }))
+      // The server counted this download once the last byte was sent
+      if (fileInfo.remainingDownloads !== undefined) {
+        setFileInfo({ ...fileInfo, remainingDownloads: Math.max(0, fileInfo.remainingDownloads - 1) })
+      }
 
       toast({
         title: "ダウンロード完了",
@@ -309,7 +436,12 @@ export default function DownloadPage() {
       })
     } catch (err) {
       console.error("Download error:", err)
-      const errorMessage = err instanceof Error ? err.message : "ダウンロードに失敗しました"
+      const errorMessage =
+        err instanceof Error && err.name === "OperationError"
+          ? "復号に失敗しました。リンクの復号キーが正しいか確認してください。"
+          : err instanceof Error
+            ? err.message
+            : "ダウンロードに失敗しました"
 
       setDownloadState((prev) => ({
         ...prev,
@@ -341,6 +473,76 @@ export default function DownloadPage() {
     )
   }
 
+  if (passwordRequired) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle className="flex items-center justify-center gap-2">
+              <Lock className="h-6 w-6" />
+              パスワードが必要です
+            </CardTitle>
+            <CardDescription>このファイルはパスワードで保護されています</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={unlock} className="space-y-4">
+              <Input
+                type="password"
+                autoComplete="current-password"
+                placeholder="パスワードを入力"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={unlocking}
+                autoFocus
+              />
+              {passwordError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{passwordError}</AlertDescription>
+                </Alert>
+              )}
+              <Button type="submit" className="w-full" disabled={unlocking || !password}>
+                {unlocking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Lock className="h-4 w-4 mr-2" />}
+                ロックを解除
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (error && retrievedAt !== null) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle className="flex items-center justify-center gap-2 text-orange-600">
+              <Flame className="h-6 w-6" />
+              既に受け取り済みです
+            </CardTitle>
+            <CardDescription>
+              {new Date(retrievedAt).toLocaleString("ja-JP")} にダウンロード回数の上限に達しました
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                このファイルは決められた回数だけダウンロードできる設定でアップロードされ、既に削除されています。
+                必要な場合は送信者にもう一度アップロードを依頼してください。
+              </AlertDescription>
+            </Alert>
+            <Button onClick={() => (window.location.href = "/")} variant="default" className="w-full">
+              <Home className="h-4 w-4 mr-2" />
+              ホームに戻る
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   if (error || !fileInfo) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
@@ -369,7 +571,7 @@ export default function DownloadPage() {
             </div>
 
             <div className="text-xs text-gray-500 text-center space-y-1">
-              <p>• ファイルが24時間以内にアップロードされたか確認してください</p>
+              <p>• ファイルの保存期間が過ぎていないか確認してください</p>
               <p>• リンクが正しくコピーされているか確認してください</p>
               <p>• 問題が続く場合は、新しいファイルをアップロードしてください</p>
               {retryCount > 0 && <p>• 再試行回数: {retryCount}回</p>}
@@ -404,7 +606,9 @@ export default function DownloadPage() {
               <div className="text-sm text-gray-500 space-y-1">
                 <div className="flex justify-between">
                   <span>ファイルサイズ:</span>
-                  <span>{formatFileSize(fileInfo.compressed ? fileInfo.originalSize : fileInfo.size)}</span>
+                  <span>
+                    {formatFileSize(fileInfo.compressed || fileInfo.encryption ? fileInfo.originalSize : fileInfo.size)}
+                  </span>
                 </div>
                 {fileInfo.compressed && (
                   <div className="flex justify-between text-green-600">
@@ -414,6 +618,12 @@ export default function DownloadPage() {
                     </span>
                   </div>
                 )}
+                {fileInfo.compressed && (
+                  <div className="flex justify-between">
+                    <span>圧縮形式:</span>
+                    <span>{COMPRESSION_CODECS[fileInfo.codec ?? DEFAULT_CODEC].label}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span>アップロード:</span>
                   <span>{new Date(fileInfo.uploadedAt).toLocaleDateString("ja-JP")}</span>
@@ -426,6 +636,31 @@ export default function DownloadPage() {
                     </span>
                   </div>
                 )}
+                {fileInfo.remainingDownloads !== undefined && (
+                  <div className="flex justify-between text-orange-600">
+                    <span>残りダウンロード回数:</span>
+                    <span>
+                      {fileInfo.remainingDownloads} / {fileInfo.maxDownloads}回
+                    </span>
+                  </div>
+                )}
+                {fileInfo.encryption && (
+                  <div className="flex justify-between text-green-600">
+                    <span>暗号化:</span>
+                    <span className="flex items-center gap-1">
+                      <ShieldCheck className="h-4 w-4" />
+                      エンドツーエンド ({fileInfo.encryption.algorithm})
+                    </span>
+                  </div>
+                )}
+                {fileInfo.sha256 && (
+                  <div className="flex justify-between gap-2">
+                    <span>SHA-256:</span>
+                    <span className="font-mono truncate" title={fileInfo.sha256}>
+                      {fileInfo.sha256.slice(0, 16)}…
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between text-blue-600">
                   <span>保存場所:</span>
                   <span>Vercel Blob</span>
@@ -473,6 +708,7 @@ export default function DownloadPage() {
               <AlertDescription>
                 ダウンロードが完了しました。
                 {fileInfo.compressed && " ファイルは自動的に展開されました。"}
+                {integrity === "verified" && " SHA-256 による整合性を確認しました。"}
               </AlertDescription>
             </Alert>
           )}
@@ -484,17 +720,31 @@ export default function DownloadPage() {
             </Alert>
           )}
 
+          {fileInfo.remainingDownloads === 1 && downloadState.status !== "completed" && (
+            <Alert variant="destructive">
+              <Flame className="h-4 w-4" />
+              <AlertDescription>
+                これが最後のダウンロードです。ダウンロードが完了するとファイルは削除され、このリンクは使えなくなります。
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Download Button */}
           <Button
             onClick={downloadWithProgress}
             className="w-full"
             size="lg"
-            disabled={downloadState.status === "downloading"}
+            disabled={downloadState.status === "downloading" || fileInfo.remainingDownloads === 0}
           >
             {downloadState.status === "downloading" ? (
               <>
                 <Loader2 className="h-5 w-5 mr-2 animate-spin" />
-                ダウンロード中... {Math.round(downloadState.progress)}%
+                {integrity === "verifying" ? "整合性を確認中..." : `ダウンロード中... ${Math.round(downloadState.progress)}%`}
+              </>
+            ) : fileInfo.remainingDownloads === 0 ? (
+              <>
+                <Flame className="h-5 w-5 mr-2" />
+                受け取り済み (削除されました)
               </>
             ) : downloadState.status === "completed" ? (
               <>
@@ -0,0 +1,305 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams } from "next/navigation"
+import {
+  AlertCircle,
+  Archive,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  FileIcon,
+  Files,
+  Folder,
+  FolderOpen,
+  Home,
+  RefreshCw,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+
+interface CollectionFile {
+  fileId: string
+  path: string
+  size: number
+  compressed: boolean
+  uploadedAt: string
+  shareUrl: string
+  // Signed and short-lived, see lib/signed-url.ts
+  downloadUrl: string
+}
+
+interface CollectionInfo {
+  id: string
+  name: string
+  createdAt: string
+  expiresAt: string
+  items: CollectionFile[]
+  zipUrl: string
+}
+
+interface TreeNode {
+  name: string
+  // Path from the root of the tree, e.g. "project/src"
+  path: string
+  // Set for files, folders only have children
+  file?: CollectionFile
+  children: TreeNode[]
+}
+
+// Turns the flat "a/b/c" paths into nested folders, folders first and both sorted by name
+function buildTree(items: CollectionFile[]): TreeNode {
+  const root: TreeNode = { name: "", path: "", children: [] }
+
+  for (const item of items) {
+    const segments = item.path.split("/")
+    let node = root
+    segments.slice(0, -1).forEach((segment, i) => {
+      let child = node.children.find((candidate) => !candidate.file && candidate.name === segment)
+      if (!child) {
+        child = { name: segment, path: segments.slice(0, i + 1).join("/"), children: [] }
+        node.children.push(child)
+      }
+      node = child
+    })
+    node.children.push({ name: segments[segments.length - 1], path: item.path, file: item, children: [] })
+  }
+
+  const sort = (node: TreeNode) => {
+    node.children.sort((a, b) => Number(!!a.file) - Number(!!b.file) || a.name.localeCompare(b.name, "ja"))
+    node.children.forEach(sort)
+  }
+  sort(root)
+  return root
+}
+
+const countFiles = (node: TreeNode): number =>
+  node.file ? 1 : node.children.reduce((total, child) => total + countFiles(child), 0)
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return "0 Bytes"
+  const k = 1024
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"]
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
+}
+
+function TreeEntry({ node, depth, zipUrl }: { node: TreeNode; depth: number; zipUrl: string }) {
+  const [open, setOpen] = useState(depth < 2)
+  const indent = { paddingLeft: `${depth * 1.25}rem` }
+
+  if (node.file) {
+    return (
+      <div className="flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-gray-100" style={indent}>
+        <a href={`/download/${node.file.fileId}`} className="flex items-center gap-2 min-w-0 flex-1 hover:underline">
+          <FileIcon className="h-4 w-4 shrink-0 text-gray-500" />
+          <span className="truncate">{node.name}</span>
+        </a>
+        <span className="shrink-0 text-xs text-gray-500">{formatFileSize(node.file.size)}</span>
+        {/* The stream endpoint decompresses on the fly and sends the file as an attachment */}
+        <Button asChild variant="ghost" size="sm" className="h-7 w-7 shrink-0 p-0">
+          <a href={node.file.downloadUrl} download={node.name} title="ダウンロード">
+            <Download className="h-4 w-4" />
+          </a>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 rounded hover:bg-gray-100">
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          className="flex min-w-0 flex-1 items-center gap-2 px-2 py-1 text-left text-sm font-medium"
+          style={indent}
+        >
+          {open ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+          {open ? (
+            <FolderOpen className="h-4 w-4 shrink-0 text-blue-500" />
+          ) : (
+            <Folder className="h-4 w-4 shrink-0 text-blue-500" />
+          )}
+          <span className="truncate">{node.name}</span>
+          <span className="ml-auto shrink-0 text-xs font-normal text-gray-500">{countFiles(node)} ファイル</span>
+        </button>
+        <Button asChild variant="ghost" size="sm" className="mr-2 h-7 w-7 shrink-0 p-0">
+          <a
+            href={`${zipUrl}&folder=${encodeURIComponent(node.path)}`}
+            download={`${node.name}.zip`}
+            title="フォルダをZIPでダウンロード"
+          >
+            <Archive className="h-4 w-4" />
+          </a>
+        </Button>
+      </div>
+      {open &&
+        node.children.map((child) => (
+          <TreeEntry
+            key={`${child.file ? "f" : "d"}:${child.name}`}
+            node={child}
+            depth={depth + 1}
+            zipUrl={zipUrl}
+          />
+        ))}
+    </div>
+  )
+}
+
+export default function CollectionPage() {
+  const params = useParams()
+  const collectionId = params.collectionId as string
+  const [collection, setCollection] = useState<CollectionInfo | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchCollection = async () => {
+    try {
+      console.log("Fetching collection:", collectionId)
+      const response = await fetch(`/api/collections/${collectionId}`, { headers: { "Cache-Control": "no-cache" } })
+
+      if (response.ok) {
+        setCollection(await response.json())
+        setError(null)
+        return
+      }
+
+      const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
+      console.log("API error:", errorData)
+
+      switch (response.status) {
+        case 404:
+          setError("共有リンクが見つかりません。リンクが正しいか確認してください。")
+          break
+        case 410:
+          setError("共有リンクの期限が切れており、自動的に削除されました。")
+          break
+        default:
+          setError(errorData.error || `サーバーエラーが発生しました (${response.status})`)
+      }
+    } catch (err) {
+      console.error("Fetch error:", err)
+      setError(err instanceof Error ? err.message : "不明なエラーが発生しました")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchCollection()
+  }, [collectionId])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">共有ファイルを読み込み中...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !collection) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle className="flex items-center justify-center gap-2 text-red-600">
+              <AlertCircle className="h-6 w-6" />
+              エラーが発生しました
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error || "共有リンクが見つかりません"}</AlertDescription>
+            </Alert>
+            <div className="flex flex-col gap-2">
+              <Button
+                onClick={() => {
+                  setLoading(true)
+                  fetchCollection()
+                }}
+                variant="outline"
+                className="w-full bg-transparent"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                再試行
+              </Button>
+              <Button onClick={() => (window.location.href = "/")} variant="default" className="w-full">
+                <Home className="h-4 w-4 mr-2" />
+                ホームに戻る
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const tree = buildTree(collection.items)
+  const totalSize = collection.items.reduce((total, item) => total + item.size, 0)
+  const missing = countFiles(tree) === 0
+  // Uploaded folders keep their tree, plain multi-file selections are a flat list
+  const isFolder = collection.items.some((item) => item.path.includes("/"))
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl">
+        <CardHeader className="text-center">
+          <CardTitle className="flex items-center justify-center gap-2">
+            {isFolder ? <FolderOpen className="h-6 w-6" /> : <Files className="h-6 w-6" />}
+            <span className="break-all">{collection.name}</span>
+          </CardTitle>
+          <CardDescription>
+            {collection.items.length} ファイル ・ {formatFileSize(totalSize)} ・ 期限:{" "}
+            {new Date(collection.expiresAt).toLocaleString("ja-JP")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {missing ? (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>このリンクのファイルはすべて期限切れか削除済みです。</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="rounded-lg border bg-white p-2 max-h-[60vh] overflow-y-auto">
+              {tree.children.map((child) => (
+                <TreeEntry
+                  key={`${child.file ? "f" : "d"}:${child.name}`}
+                  node={child}
+                  depth={0}
+                  zipUrl={collection.zipUrl}
+                />
+              ))}
+            </div>
+          )}
+
+          {!missing && (
+            // The archive is assembled on the server while it downloads, so the browser shows its own progress
+            <Button asChild className="w-full" size="lg">
+              <a href={collection.zipUrl} download={`${collection.name}.zip`}>
+                <Archive className="h-5 w-5 mr-2" />
+                すべてダウンロード (ZIP)
+              </a>
+            </Button>
+          )}
+
+          <p className="text-xs text-gray-500 text-center">
+            ファイル名をクリックすると詳細ページを開きます。ダウンロードボタンで個別に、
+            フォルダのボタンでフォルダごとZIPで保存できます
+          </p>
+
+          <div className="text-center">
+            <Button onClick={() => (window.location.href = "/")} variant="outline" size="sm">
+              新しいファイルをアップロード
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
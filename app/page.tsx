@@ -1,7 +1,7 @@
 "use client"
 
 import type React from "react"
-import { useState, useCallback, useRef } from "react"
+import { useState, useCallback, useEffect, useRef } from "react"
 import {
   Upload,
   Download,
@@ -15,16 +15,43 @@ import {
   Clock,
   Info,
   Zap,
+  FolderOpen,
+  Files,
+  Flame,
+  Lock,
+  ShieldCheck,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Switch } from "@/components/ui/switch"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
 import { useToast } from "@/hooks/use-toast"
 import { ShareModal } from "@/components/share-modal"
 import { DetailedProgress } from "@/components/detailed-progress"
 import { DownloadProgress } from "@/components/download-progress"
+import { UPLOAD_CONCURRENCY, createConcurrencyController, pickChunkSize } from "@/lib/adaptive-upload"
+import { sha256Hex, sha256HexOfBlob } from "@/lib/checksum"
+import { type StreamChunk, type WorkerCompression, compressInWorker, splitIntoChunks } from "@/lib/compression-client"
+import { COMPRESSION_CODECS, type CompressionCodec, DEFAULT_CODEC } from "@/lib/codecs"
+import { MIN_COMPRESSIBLE_SIZE, estimateCompressibility } from "@/lib/compressibility"
+import { type SelectedFile, filesFromDataTransfer, filesFromInput, rootFolderOf } from "@/lib/folder-upload"
+import { DEFAULT_LIFETIME_HOURS, LIFETIME_OPTIONS, MAX_LIFETIME_HOURS, formatLifetime } from "@/lib/expiry"
+import {
+  type EncryptionParams,
+  cipherStream,
+  createEncryptor,
+  encryptedSize,
+  exportKey,
+  generateEncryption,
+  importKey,
+} from "@/lib/encryption"
+
+// Download limits offered to the uploader; 0 leaves the file unlimited
+const MAX_DOWNLOADS_OPTIONS = [0, 1, 3, 5, 10]
 
 interface FileItem {
   id: string
@@ -34,9 +61,39 @@ interface FileItem {
   compressed: boolean
   compressionRatio: number
   uploadedAt: string
+  expiresAt: string
+  // Signed, so it stops working after an hour; downloadFile asks for a fresh one
   downloadUrl: string
-  blobUrl: string
   shareUrl: string
+  // Downloads need the link password, including the uploader's own
+  passwordProtected?: boolean
+  // End-to-end encrypted; the key only exists here and in the share link's fragment
+  encryption?: EncryptionParams
+  encryptionKey?: string
+  // Issued once when the upload completes; deleting and extending the file need it
+  ownerToken?: string
+}
+
+// Returned by the chunk that completes an upload
+interface CompletedUpload {
+  downloadUrl: string
+  shareUrl: string
+  expiresAt: string
+  ownerToken: string
+}
+
+// Uploaded files survive a reload so that the uploader can still manage them
+const UPLOADED_FILES_STORAGE_KEY = "uploaded-files"
+
+// Several uploaded files shared under one /download/c/<id> link
+interface CollectionItem {
+  id: string
+  name: string
+  size: number
+  fileCount: number
+  uploadedAt: string
+  expiresAt: string
+  downloadUrl: string
 }
 
 interface ChunkProgress {
@@ -56,11 +113,17 @@ interface UploadProgress {
   progress: number
   status: "uploading" | "compressing" | "completed" | "error"
   compressionRatio?: number
+  // Saving predicted from sampled blocks before the upload starts, in percent
+  estimatedSavings?: number
+  // Percentage of the original file read by the compression worker
+  compressionProgress?: number
   error?: string
   chunks: ChunkProgress[]
   totalChunks: number
   uploadedChunks: number
-  currentChunk: number
+  // Chunks currently being sent by the worker pool
+  activeChunks: number[]
+  concurrency: number
   uploadSpeed: number
   estimatedTimeRemaining: number
   totalBytes: number
@@ -70,103 +133,49 @@ interface UploadProgress {
 
 export default function FileTransferSite() {
   const [files, setFiles] = useState<FileItem[]>([])
+  const [collections, setCollections] = useState<CollectionItem[]>([])
   const [uploadProgress, setUploadProgress] = useState<UploadProgress[]>([])
   const [isDragging, setIsDragging] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
   const [compressionEnabled, setCompressionEnabled] = useState(true)
+  const [framedCompression, setFramedCompression] = useState(false)
+  const [compressionCodec, setCompressionCodec] = useState<CompressionCodec>(DEFAULT_CODEC)
+  const [compressionLevel, setCompressionLevel] = useState(COMPRESSION_CODECS[DEFAULT_CODEC].defaultLevel)
+  const [lifetimeHours, setLifetimeHours] = useState(DEFAULT_LIFETIME_HOURS)
+  const [maxDownloads, setMaxDownloads] = useState(0)
+  const [linkPassword, setLinkPassword] = useState("")
+  const [encryptionEnabled, setEncryptionEnabled] = useState(false)
+  // Measured across files so the next upload starts with a suitable chunk size and pool
+  const uploadStatsRef = useRef({ throughput: 0, concurrency: UPLOAD_CONCURRENCY.initial })
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
 
   const [shareModalOpen, setShareModalOpen] = useState(false)
-  const [selectedFileForShare, setSelectedFileForShare] = useState<FileItem | null>(null)
+  const [selectedFileForShare, setSelectedFileForShare] = useState<
+    FileItem | (CollectionItem & { kind: "collection" }) | null
+  >(null)
   const [deletingFiles, setDeletingFiles] = useState<Set<string>>(new Set())
+  const [extendingFiles, setExtendingFiles] = useState<Set<string>>(new Set())
   const [downloadingFile, setDownloadingFile] = useState<FileItem | null>(null)
 
-  // 圧縮済みファイル形式の判定
-  const isAlreadyCompressed = (fileName: string, mimeType?: string): boolean => {
-    const compressedExtensions = [
-      ".zip",
-      ".rar",
-      ".7z",
-      ".tar.gz",
-      ".tgz",
-      ".tar.bz2",
-      ".tbz2",
-      ".tar.xz",
-      ".txz",
-      ".gz",
-      ".bz2",
-      ".xz",
-      ".lz",
-      ".lzma",
-      ".z",
-      ".jpg",
-      ".jpeg",
-      ".png",
-      ".gif",
-      ".webp",
-      ".avif",
-      ".heic",
-      ".heif",
-      ".mp4",
-      ".avi",
-      ".mkv",
-      ".mov",
-      ".wmv",
-      ".flv",
-      ".webm",
-      ".m4v",
-      ".3gp",
-      ".mp3",
-      ".aac",
-      ".ogg",
-      ".wma",
-      ".m4a",
-      ".opus",
-      ".flac",
-      ".pdf",
-      ".docx",
-      ".xlsx",
-      ".pptx",
-      ".odt",
-      ".ods",
-      ".odp",
-      ".apk",
-      ".ipa",
-      ".deb",
-      ".rpm",
-      ".dmg",
-      ".iso",
-    ]
-
-    const lowerFileName = fileName.toLowerCase()
-    const isCompressedByExtension = compressedExtensions.some((ext) => lowerFileName.endsWith(ext))
-
-    const compressedMimeTypes = [
-      "application/zip",
-      "application/x-rar-compressed",
-      "application/x-7z-compressed",
-      "application/gzip",
-      "application/x-bzip2",
-      "application/x-xz",
-      "image/jpeg",
-      "image/png",
-      "image/gif",
-      "image/webp",
-      "video/mp4",
-      "video/avi",
-      "video/quicktime",
-      "video/x-msvideo",
-      "audio/mpeg",
-      "audio/aac",
-      "audio/ogg",
-      "audio/x-ms-wma",
-      "application/pdf",
-    ]
-
-    const isCompressedByMime = mimeType ? compressedMimeTypes.some((type) => mimeType.includes(type)) : false
-    return isCompressedByExtension || isCompressedByMime
-  }
+  // Restores the files of earlier visits, dropping those that have expired in the meantime
+  const filesRestoredRef = useRef(false)
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(UPLOADED_FILES_STORAGE_KEY) || "[]") as FileItem[]
+      setFiles(saved.filter((file) => new Date(file.expiresAt).getTime() > Date.now()))
+    } catch {
+      localStorage.removeItem(UPLOADED_FILES_STORAGE_KEY)
+    }
+    filesRestoredRef.current = true
+  }, [])
+
+  useEffect(() => {
+    if (filesRestoredRef.current) {
+      localStorage.setItem(UPLOADED_FILES_STORAGE_KEY, JSON.stringify(files))
+    }
+  }, [files])
 
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return "0 Bytes"
@@ -176,159 +185,335 @@ export default function FileTransferSite() {
     return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
   }
 
-  const compressFile = async (file: File): Promise<{ compressedFile: File; compressionRatio: number }> => {
-    return new Promise((resolve, reject) => {
-      try {
-        import("pako")
-          .then((pako) => {
-            const reader = new FileReader()
-            reader.onload = (e) => {
-              try {
-                const arrayBuffer = e.target?.result as ArrayBuffer
-                const uint8Array = new Uint8Array(arrayBuffer)
-                const compressed = pako.gzip(uint8Array, { level: 6 })
-                const compressionRatio = (1 - compressed.length / uint8Array.length) * 100
-
-                if (compressionRatio < 5) {
-                  resolve({ compressedFile: file, compressionRatio: 0 })
-                  return
-                }
-
-                const compressedBlob = new Blob([compressed], { type: "application/gzip" })
-                const compressedFile = new File([compressedBlob], `${file.name}.gz`, {
-                  type: "application/gzip",
-                  lastModified: file.lastModified,
-                })
-
-                resolve({ compressedFile, compressionRatio })
-              } catch (error) {
-                reject(error)
-              }
-            }
-            reader.onerror = reject
-            reader.readAsArrayBuffer(file)
-          })
-          .catch(reject)
-      } catch (error) {
-        reject(error)
-      }
-    })
-  }
+  // relativePath is set for files picked as part of a folder; resolves to the uploaded file or null on failure
+  const uploadFileInChunks = async (file: File, relativePath?: string): Promise<FileItem | null> => {
+    // Files of a folder can share a name, so progress entries are keyed by their path
+    const label = relativePath ?? file.name
+    // Reuse the session of an earlier, interrupted upload of the same file
+    // The compressed bytes depend on every compression setting, so a resumed session must match all of them
+    const sessionStorageKey = `upload-session:${label}:${file.size}:${file.lastModified}:${framedCompression}:${compressionCodec}:${compressionLevel}:${encryptionEnabled}`
+    const savedSession = JSON.parse(localStorage.getItem(sessionStorageKey) || "null") as {
+      id: string
+      chunkSize: number
+      compressed: boolean
+      // Encrypted uploads resume with the same key and nonces, which reproduce the chunks already sent
+      encryption?: EncryptionParams
+      key?: string
+    } | null
 
-  const uploadFileInChunks = async (file: File) => {
-    const chunkSize = 1024 * 1024 * 1.5
-    const fileId = Date.now().toString() + Math.random().toString(36).substr(2, 9)
+    // Every chunk becomes one multipart part; its size follows the throughput of earlier uploads
+    const chunkSize = savedSession?.chunkSize ?? pickChunkSize(uploadStatsRef.current.throughput)
     const originalSize = file.size
-    let finalFile = file
-    let compressed = false
+    // Ciphertext does not shrink, so encrypted files are never compressed
+    const tryCompression = compressionEnabled && !encryptionEnabled
+    // Decided upfront from sampled content: compressed chunks are uploaded while the rest is still being compressed
+    const estimate = tryCompression
+      ? await estimateCompressibility(file).catch(() => null)
+      : { compressible: false, estimatedSavings: 0 }
+    // Without an estimate the file is compressed, as before sampling existed
+    const compressed = estimate ? estimate.compressible : file.size >= MIN_COMPRESSIBLE_SIZE
     let compressionRatio = 0
 
-    const totalChunks = Math.ceil(finalFile.size / chunkSize)
+    let encryption: { key: CryptoKey; params: EncryptionParams; encodedKey: string } | null = null
+    if (encryptionEnabled && savedSession?.encryption && savedSession.key) {
+      encryption = {
+        key: await importKey(savedSession.key),
+        params: savedSession.encryption,
+        encodedKey: savedSession.key,
+      }
+    } else if (encryptionEnabled) {
+      const { key, params } = await generateEncryption()
+      encryption = { key, params, encodedKey: await exportKey(key) }
+    }
+    // Bytes sent to the server: the file itself, or its ciphertext
+    const uploadSize = encryption ? encryptedSize(file.size, encryption.params.recordSize) : file.size
+    let uploadedSize = uploadSize
+
+    // Exact for uncompressed uploads; estimated from the output so far while compressing
+    let totalBytesLocal = uploadSize
+    let totalChunks = Math.max(1, Math.ceil(uploadSize / chunkSize))
     const startTime = Date.now()
     let uploadedBytesLocal = 0
-    const totalBytesLocal = file.size
 
-    const chunks: ChunkProgress[] = Array.from({ length: totalChunks }, (_, index) => ({
+    const newChunk = (index: number, size: number): ChunkProgress => ({
       index,
       status: "pending",
       progress: 0,
-      size: index === totalChunks - 1 ? finalFile.size - index * chunkSize : chunkSize,
+      size,
       uploadedBytes: 0,
       retryCount: 0,
-    }))
+    })
 
     setUploadProgress((prev) => [
       ...prev,
       {
-        fileName: file.name,
+        fileName: label,
         progress: 0,
-        status: "uploading",
-        chunks,
+        status: compressed ? "compressing" : "uploading",
+        compressionProgress: compressed ? 0 : undefined,
+        estimatedSavings: compressed ? estimate?.estimatedSavings : undefined,
+        // Compressed chunks are only known once the worker has produced them
+        chunks: compressed
+          ? []
+          : Array.from({ length: totalChunks }, (_, index) =>
+              newChunk(index, index === totalChunks - 1 ? uploadSize - index * chunkSize : chunkSize),
+            ),
         totalChunks,
         uploadedChunks: 0,
-        currentChunk: 0,
+        activeChunks: [],
+        concurrency: uploadStatsRef.current.concurrency,
         uploadSpeed: 0,
         estimatedTimeRemaining: 0,
-        totalBytes: finalFile.size,
+        totalBytes: uploadSize,
         uploadedBytes: 0,
         showDetails: false,
       },
     ])
 
+    if (compressed && estimate) {
+      toast({
+        title: "圧縮効果の推定",
+        description: `${file.name} は約 ${estimate.estimatedSavings.toFixed(0)}% (${formatFileSize(
+          (file.size * estimate.estimatedSavings) / 100,
+        )}) の削減が見込めます`,
+      })
+    } else if (tryCompression && estimate?.format) {
+      toast({
+        title: "圧縮をスキップ",
+        description: `${file.name} は既に圧縮された形式 (${estimate.format}) のため、そのままアップロードします`,
+      })
+    } else if (tryCompression && file.size >= MIN_COMPRESSIBLE_SIZE) {
+      toast({
+        title: "圧縮をスキップ",
+        description: `${file.name} は圧縮しても効果が小さいため、そのままアップロードします`,
+      })
+    }
+
+    let source: AsyncGenerator<StreamChunk> | null = null
+
     try {
-      const shouldCompress = compressionEnabled && file.size > 1024 * 100 && !isAlreadyCompressed(file.name, file.type)
-
-      if (shouldCompress) {
-        setUploadProgress((prev) => prev.map((p) => (p.fileName === file.name ? { ...p, status: "compressing" } : p)))
-
-        try {
-          const compressionResult = await compressFile(file)
-          if (compressionResult.compressionRatio > 0) {
-            finalFile = compressionResult.compressedFile
-            compressionRatio = compressionResult.compressionRatio
-            compressed = true
-            toast({
-              title: "圧縮完了",
-              description: `${file.name} を ${compressionRatio.toFixed(1)}% 圧縮しました`,
-            })
-          } else {
-            toast({
-              title: "圧縮をスキップ",
-              description: `${file.name} は既に最適化されているため、圧縮をスキップしました`,
-            })
-          }
-        } catch (compressionError) {
-          toast({
-            title: "圧縮失敗",
-            description: `${file.name} の圧縮に失敗しました。元のファイルをアップロードします`,
-            variant: "destructive",
-          })
+      // Digest of the original bytes, checked again by the browser after download
+      // Left out when encrypting: it would let the server confirm a guess of the contents
+      const sha256 = encryption ? undefined : await sha256HexOfBlob(file)
+
+      let fileId = savedSession?.compressed === compressed ? savedSession.id : null
+      let receivedChunks: number[] = []
+
+      if (fileId) {
+        const sessionResponse = await fetch(`/api/uploads/${fileId}`)
+        const session = sessionResponse.ok ? await sessionResponse.json() : null
+        // Compression is deterministic, so a streamed session produces the same chunks again
+        if (session && !session.completed && (compressed || session.totalChunks === totalChunks)) {
+          // If every chunk arrived but completion failed, resending the last one completes it again
+          receivedChunks =
+            session.missingChunks?.length === 0 ? session.receivedChunks.slice(0, -1) : session.receivedChunks
+        } else {
+          fileId = null
+        }
+      }
+
+      if (!fileId) {
+        const sessionResponse = await fetch("/api/uploads", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          // The compressed size is only known with the final chunk
+          body: JSON.stringify(
+            compressed
+              ? {
+                  fileName: file.name,
+                  chunkSize,
+                  originalSize,
+                  compressed,
+                  codec: compressionCodec,
+                  streaming: true,
+                  sha256,
+                  relativePath,
+                  lifetimeHours,
+                  maxDownloads: maxDownloads || undefined,
+                  password: linkPassword || undefined,
+                }
+              : {
+                  fileName: file.name,
+                  size: uploadSize,
+                  chunkSize,
+                  totalChunks,
+                  originalSize,
+                  compressed,
+                  sha256,
+                  relativePath,
+                  lifetimeHours,
+                  maxDownloads: maxDownloads || undefined,
+                  password: linkPassword || undefined,
+                  encryption: encryption?.params,
+                },
+          ),
+        })
+
+        if (!sessionResponse.ok) {
+          const errorData = await sessionResponse.json()
+          throw new Error(errorData.error || `HTTP ${sessionResponse.status}`)
         }
 
+        fileId = (await sessionResponse.json()).id as string
+        localStorage.setItem(
+          sessionStorageKey,
+          JSON.stringify({
+            id: fileId,
+            chunkSize,
+            compressed,
+            ...(encryption && { encryption: encryption.params, key: encryption.encodedKey }),
+          }),
+        )
+      }
+
+      const sessionId = fileId
+      const controller = createConcurrencyController(uploadStatsRef.current.concurrency)
+      const activeChunks = new Set<number>()
+      let completedChunks = 0
+      let resumedBytes = 0
+      let completedResult: CompletedUpload | null = null
+
+      const updateChunk = (chunkIndex: number, update: Partial<ChunkProgress>, extra: Partial<UploadProgress> = {}) =>
         setUploadProgress((prev) =>
-          prev.map((p) => (p.fileName === file.name ? { ...p, status: "uploading", compressionRatio } : p)),
+          prev.map((p) =>
+            p.fileName === label
+              ? {
+                  ...p,
+                  ...extra,
+                  activeChunks: [...activeChunks].sort((a, b) => a - b),
+                  concurrency: controller.concurrency,
+                  chunks:
+                    chunkIndex < p.chunks.length
+                      ? p.chunks.map((c, i) => (i === chunkIndex ? { ...c, ...update } : c))
+                      : [...p.chunks, { ...newChunk(chunkIndex, 0), ...update }],
+                }
+              : p,
+          ),
         )
-      } else if (isAlreadyCompressed(file.name, file.type)) {
-        toast({
-          title: "圧縮をスキップ",
-          description: `${file.name} は既に圧縮されているため、そのままアップロードします`,
+
+      const markCompleted = (chunkIndex: number, size: number) => {
+        activeChunks.delete(chunkIndex)
+        completedChunks++
+        uploadedBytesLocal += size
+        const elapsedSec = (Date.now() - startTime) / 1000
+        const uploadSpeed = elapsedSec > 0 ? (uploadedBytesLocal - resumedBytes) / elapsedSec : 0
+        const remainingBytes = totalBytesLocal - uploadedBytesLocal
+        const estimatedSec = uploadSpeed > 0 ? remainingBytes / uploadSpeed : 0
+
+        updateChunk(
+          chunkIndex,
+          { status: "completed", progress: 100, size, uploadedBytes: size, endTime: Date.now() },
+          {
+            progress: Math.min(100, (uploadedBytesLocal / totalBytesLocal) * 100),
+            uploadedChunks: completedChunks,
+            uploadedBytes: uploadedBytesLocal,
+            uploadSpeed,
+            estimatedTimeRemaining: estimatedSec,
+          },
+        )
+      }
+
+      let compression: WorkerCompression | null = null
+      if (compressed) {
+        let lastPercent = -1
+        const options = {
+          codec: compressionCodec,
+          level: compressionLevel,
+          frameSize: framedCompression ? chunkSize : 0,
+        }
+        compression = compressInWorker(file, options, (readBytes, compressedBytes) => {
+          const percent = Math.floor((readBytes / file.size) * 100)
+          if (percent === lastPercent) return
+          lastPercent = percent
+
+          if (readBytes > 0) {
+            totalBytesLocal = Math.max(1, Math.round((compressedBytes / readBytes) * file.size))
+            totalChunks = Math.max(1, Math.ceil(totalBytesLocal / chunkSize))
+          }
+          setUploadProgress((prev) =>
+            prev.map((p) =>
+              p.fileName === label
+                ? { ...p, compressionProgress: percent, totalBytes: totalBytesLocal, totalChunks }
+                : p,
+            ),
+          )
         })
       }
 
-      for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
-        const start = chunkIndex * chunkSize
-        const end = Math.min(start + chunkSize, finalFile.size)
-        const chunk = finalFile.slice(start, end)
+      async function* sliceFile(): AsyncGenerator<StreamChunk> {
+        for (let index = 0; index < totalChunks; index++) {
+          const start = index * chunkSize
+          yield { index, data: file.slice(start, start + chunkSize), final: index === totalChunks - 1 }
+        }
+      }
 
-        const formData = new FormData()
-        formData.append("chunk", chunk)
-        formData.append("chunkIndex", chunkIndex.toString())
-        formData.append("totalChunks", totalChunks.toString())
-        formData.append("fileId", fileId)
-        formData.append("fileName", file.name)
-        formData.append("originalSize", originalSize.toString())
-        formData.append("compressed", compressed.toString())
-        formData.append("compressionRatio", compressionRatio.toString())
+      const encrypted = encryption
+        ? file.stream().pipeThrough(cipherStream(createEncryptor(encryption.key, encryption.params)))
+        : null
+      const chunkSource = compression
+        ? splitIntoChunks(compression.stream, chunkSize)
+        : encrypted
+          ? splitIntoChunks(encrypted, chunkSize)
+          : sliceFile()
+      source = chunkSource
+
+      // Runs when the final chunk has been cut, i.e. the whole file is compressed
+      const finishCompression = async (finalChunk: StreamChunk) => {
+        if (!compression) return {}
+
+        const { frames } = await compression.result
+        uploadedSize = finalChunk.index * chunkSize + finalChunk.data.size
+        compressionRatio = (1 - uploadedSize / originalSize) * 100
+        totalBytesLocal = uploadedSize
+        totalChunks = finalChunk.index + 1
 
         setUploadProgress((prev) =>
           prev.map((p) =>
-            p.fileName === file.name
+            p.fileName === label
               ? {
                   ...p,
-                  currentChunk: chunkIndex,
-                  chunks: p.chunks.map((c, i) =>
-                    i === chunkIndex ? { ...c, status: "uploading", startTime: Date.now() } : c,
-                  ),
+                  status: "uploading",
+                  compressionProgress: 100,
+                  compressionRatio,
+                  totalBytes: totalBytesLocal,
+                  totalChunks,
+                  progress: Math.min(100, (uploadedBytesLocal / totalBytesLocal) * 100),
                 }
               : p,
           ),
         )
+        toast({
+          title: "圧縮完了",
+          description: `${file.name} を ${COMPRESSION_CODECS[compressionCodec].label} で ${compressionRatio.toFixed(1)}% 圧縮しました`,
+        })
+
+        return {
+          final: "true",
+          size: uploadedSize.toString(),
+          totalChunks: totalChunks.toString(),
+          compressionRatio: compressionRatio.toString(),
+          ...(frames && { frames: JSON.stringify(frames) }),
+        }
+      }
+
+      const uploadChunk = async (chunk: StreamChunk, totals: Record<string, string>) => {
+        const chunkIndex = chunk.index
+        const formData = new FormData()
+        formData.append("chunk", chunk.data)
+        formData.append("chunkIndex", chunkIndex.toString())
+        formData.append("sessionId", sessionId)
+        formData.append("checksum", await sha256Hex(await chunk.data.arrayBuffer()))
+        for (const [name, value] of Object.entries(totals)) {
+          formData.append(name, value)
+        }
+
+        activeChunks.add(chunkIndex)
+        updateChunk(chunkIndex, { status: "uploading", size: chunk.data.size, startTime: Date.now() })
 
         let retryCount = 0
         const maxRetries = 3
-        let success = false
 
-        while (retryCount < maxRetries && !success) {
+        while (true) {
           try {
             const response = await fetch("/api/upload-chunk", {
               method: "POST",
@@ -341,138 +526,197 @@ export default function FileTransferSite() {
             }
 
             const result = await response.json()
-            success = true
-
-            uploadedBytesLocal += chunk.size
-            const elapsedSec = (Date.now() - startTime) / 1000
-            const uploadSpeed = elapsedSec > 0 ? uploadedBytesLocal / elapsedSec : 0
-            const remainingBytes = totalBytesLocal - uploadedBytesLocal
-            const estimatedSec = uploadSpeed > 0 ? remainingBytes / uploadSpeed : 0
-
-            setUploadProgress((prev) =>
-              prev.map((p) =>
-                p.fileName === file.name
-                  ? {
-                      ...p,
-                      progress: ((chunkIndex + 1) / totalChunks) * 100,
-                      uploadedChunks: chunkIndex + 1,
-                      uploadedBytes: uploadedBytesLocal,
-                      uploadSpeed,
-                      estimatedTimeRemaining: estimatedSec,
-                      chunks: p.chunks.map((c, i) =>
-                        i === chunkIndex
-                          ? {
-                              ...c,
-                              status: "completed",
-                              progress: 100,
-                              uploadedBytes: c.size,
-                              endTime: Date.now(),
-                            }
-                          : c,
-                      ),
-                    }
-                  : p,
-              ),
-            )
+            controller.recordSuccess(chunk.data.size)
+            markCompleted(chunkIndex, chunk.data.size)
 
             if (result.completed) {
-              setUploadProgress((prev) =>
-                prev.map((p) => (p.fileName === file.name ? { ...p, status: "completed" } : p)),
-              )
-
-              setFiles((prev) => [
-                ...prev,
-                {
-                  id: fileId,
-                  name: file.name,
-                  size: finalFile.size,
-                  originalSize,
-                  compressed,
-                  compressionRatio,
-                  uploadedAt: new Date().toISOString(),
-                  downloadUrl: result.downloadUrl,
-                  blobUrl: result.blobUrl,
-                  shareUrl: result.shareUrl,
-                },
-              ])
-
-              toast({
-                title: "アップロード完了",
-                description: compressed
-                  ? `${file.name} を圧縮してクラウドにアップロードしました (${compressionRatio.toFixed(1)}% 削減)`
-                  : `${file.name} をクラウドにアップロードしました`,
-              })
-
-              setTimeout(() => {
-                setUploadProgress((prev) => prev.filter((p) => p.fileName !== file.name))
-              }, 3000)
-
-              return
+              completedResult = result
             }
+            return
           } catch (error) {
             retryCount++
-
-            setUploadProgress((prev) =>
-              prev.map((p) =>
-                p.fileName === file.name
-                  ? {
-                      ...p,
-                      chunks: p.chunks.map((c, i) =>
-                        i === chunkIndex
-                          ? {
-                              ...c,
-                              status: "retrying",
-                              retryCount: retryCount,
-                              error: error instanceof Error ? error.message : "Unknown error",
-                            }
-                          : c,
-                      ),
-                    }
-                  : p,
-              ),
-            )
+            controller.recordFailure()
+            const errorMessage = error instanceof Error ? error.message : "Unknown error"
 
             if (retryCount >= maxRetries) {
-              const errorMessage = error instanceof Error ? error.message : "Unknown error"
-              setUploadProgress((prev) =>
-                prev.map((p) =>
-                  p.fileName === file.name
-                    ? {
-                        ...p,
-                        chunks: p.chunks.map((c, i) =>
-                          i === chunkIndex ? { ...c, status: "error", error: errorMessage } : c,
-                        ),
-                      }
-                    : p,
-                ),
-              )
+              activeChunks.delete(chunkIndex)
+              updateChunk(chunkIndex, { status: "error", retryCount, error: errorMessage })
               throw new Error(`Failed to upload chunk ${chunkIndex} after ${maxRetries} attempts`)
             }
 
+            updateChunk(chunkIndex, { status: "retrying", retryCount, error: errorMessage })
             await new Promise((resolve) => setTimeout(resolve, 1000 * retryCount))
           }
         }
       }
+
+      // Worker pool: keep as many chunks in flight as the controller currently allows
+      const inFlight = new Set<Promise<void>>()
+      let failure: unknown = null
+      let exhausted = false
+
+      while ((!exhausted && !failure) || inFlight.size > 0) {
+        while (!exhausted && !failure && inFlight.size < controller.concurrency) {
+          const next = await chunkSource.next()
+          if (next.done) {
+            exhausted = true
+            break
+          }
+
+          const chunk = next.value
+          const totals = chunk.final ? await finishCompression(chunk) : {}
+
+          // Chunks already on the server from an interrupted attempt
+          if (receivedChunks.includes(chunk.index)) {
+            resumedBytes += chunk.data.size
+            markCompleted(chunk.index, chunk.data.size)
+            continue
+          }
+
+          const task: Promise<void> = uploadChunk(chunk, totals)
+            .catch((error) => {
+              failure ??= error
+            })
+            .finally(() => inFlight.delete(task))
+          inFlight.add(task)
+        }
+        if (inFlight.size > 0) await Promise.race(inFlight)
+      }
+
+      uploadStatsRef.current = {
+        throughput: controller.throughput || uploadStatsRef.current.throughput,
+        concurrency: controller.concurrency,
+      }
+
+      if (failure) throw failure
+
+      const result = completedResult as CompletedUpload | null
+      if (!result) {
+        throw new Error("Upload finished without completing the file")
+      }
+
+      localStorage.removeItem(sessionStorageKey)
+      setUploadProgress((prev) =>
+        prev.map((p) => (p.fileName === label ? { ...p, status: "completed", activeChunks: [] } : p)),
+      )
+
+      const uploaded: FileItem = {
+        id: sessionId,
+        name: label,
+        size: uploadedSize,
+        originalSize,
+        compressed,
+        compressionRatio,
+        uploadedAt: new Date().toISOString(),
+        expiresAt: result.expiresAt,
+        downloadUrl: result.downloadUrl,
+        // The fragment is never sent to the server
+        shareUrl: encryption ? `${result.shareUrl}#${encryption.encodedKey}` : result.shareUrl,
+        passwordProtected: !!linkPassword,
+        encryption: encryption?.params,
+        encryptionKey: encryption?.encodedKey,
+        ownerToken: result.ownerToken,
+      }
+      setFiles((prev) => [...prev, uploaded])
+
+      toast({
+        title: "アップロード完了",
+        description: compressed
+          ? `${file.name} を圧縮してクラウドにアップロードしました (${compressionRatio.toFixed(1)}% 削減)`
+          : `${file.name} をクラウドにアップロードしました`,
+      })
+
+      setTimeout(() => {
+        setUploadProgress((prev) => prev.filter((p) => p.fileName !== label))
+      }, 3000)
+      return uploaded
     } catch (error) {
+      // Stops the compression worker if the upload gave up halfway
+      await source?.return(undefined)
+
       const errorMessage = error instanceof Error ? error.message : "Unknown error"
       setUploadProgress((prev) =>
-        prev.map((p) => (p.fileName === file.name ? { ...p, status: "error", error: errorMessage } : p)),
+        prev.map((p) => (p.fileName === label ? { ...p, status: "error", error: errorMessage } : p)),
       )
       toast({
         title: "アップロードエラー",
         description: `${file.name} のアップロードに失敗しました: ${errorMessage}`,
         variant: "destructive",
       })
+      return null
     }
   }
 
-  const handleFileSelect = async (selectedFiles: FileList | null) => {
-    if (!selectedFiles || isUploading) return
+  // Groups uploaded files under a single share link and opens the share dialog for it
+  const shareAsCollection = async (name: string, uploaded: FileItem[]) => {
+    try {
+      const response = await fetch("/api/collections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, fileIds: uploaded.map((file) => file.id) }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      const { id, shareUrl, expiresAt } = await response.json()
+      const collection: CollectionItem = {
+        id,
+        name,
+        size: uploaded.reduce((total, file) => total + (file.compressed ? file.originalSize : file.size), 0),
+        fileCount: uploaded.length,
+        uploadedAt: new Date().toISOString(),
+        expiresAt,
+        downloadUrl: shareUrl,
+      }
+      setCollections((prev) => [...prev, collection])
+      openShareModal({ ...collection, kind: "collection" })
+    } catch (error) {
+      toast({
+        title: "共有リンクの作成に失敗しました",
+        description: `${name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleFileSelect = async (selectedFiles: SelectedFile[]) => {
+    if (selectedFiles.length === 0 || isUploading) return
+    if (linkPassword && linkPassword.length < 8) {
+      toast({ title: "パスワードは8文字以上にしてください", variant: "destructive" })
+      return
+    }
     setIsUploading(true)
-    const fileArray = Array.from(selectedFiles)
     try {
-      for (const file of fileArray) {
-        await uploadFileInChunks(file)
+      // Each folder gets its own link, loose files picked together share one
+      const folders = new Map<string, FileItem[]>()
+      const looseFiles: FileItem[] = []
+      for (const { file, path } of selectedFiles) {
+        const uploaded = await uploadFileInChunks(file, path)
+        if (!uploaded) continue
+        if (path) {
+          const folder = rootFolderOf(path)
+          folders.set(folder, [...(folders.get(folder) ?? []), uploaded])
+        } else {
+          looseFiles.push(uploaded)
+        }
+      }
+
+      // Collection pages list neither protected nor encrypted files, so each of them keeps its own link
+      if ((linkPassword || encryptionEnabled) && (folders.size > 0 || looseFiles.length > 1)) {
+        toast({
+          title: linkPassword ? "パスワード付きのファイルは個別に共有されます" : "暗号化したファイルは個別に共有されます",
+          description: "まとめて共有するリンクは作成されません。各ファイルの共有リンクを送ってください。",
+        })
+        return
+      }
+
+      for (const [name, uploaded] of folders) {
+        await shareAsCollection(name, uploaded)
+      }
+      if (looseFiles.length > 1) {
+        await shareAsCollection(`${looseFiles[0].name} ほか ${looseFiles.length - 1} ファイル`, looseFiles)
       }
     } finally {
       setIsUploading(false)
@@ -496,12 +740,22 @@ export default function FileTransferSite() {
     (e: React.DragEvent) => {
       e.preventDefault()
       setIsDragging(false)
-      if (!isUploading) handleFileSelect(e.dataTransfer.files)
+      if (isUploading) return
+      filesFromDataTransfer(e.dataTransfer)
+        .then(handleFileSelect)
+        .catch((error) =>
+          toast({
+            title: "フォルダの読み込みに失敗しました",
+            description: error instanceof Error ? error.message : "Unknown error",
+            variant: "destructive",
+          }),
+        )
     },
-    [isUploading],
+    // handleFileSelect reads the current upload options, a stale one would drop e.g. the password
+    [isUploading, handleFileSelect],
   )
 
-  const openShareModal = (file: FileItem) => {
+  const openShareModal = (file: NonNullable<typeof selectedFileForShare>) => {
     setSelectedFileForShare(file)
     setShareModalOpen(true)
   }
@@ -514,8 +768,8 @@ export default function FileTransferSite() {
 
       const response = await fetch("/api/delete-blob", {
         method: "DELETE",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ blobUrl: file.blobUrl }),
+        headers: { "Content-Type": "application/json", "X-Owner-Token": file.ownerToken ?? "" },
+        body: JSON.stringify({ fileId: file.id }),
       })
 
       if (response.ok) {
@@ -543,8 +797,62 @@ export default function FileTransferSite() {
     }
   }
 
-  const downloadFile = (file: FileItem) => {
-    setDownloadingFile(file)
+  // Moves the deletion to the currently selected lifetime, counted from now
+  const extendFile = async (file: FileItem) => {
+    setExtendingFiles((prev) => new Set(prev).add(file.id))
+    try {
+      const response = await fetch(`/api/files/${file.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", "X-Owner-Token": file.ownerToken ?? "" },
+        body: JSON.stringify({ lifetimeHours }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Extend failed")
+      }
+
+      setFiles((prev) => prev.map((f) => (f.id === file.id ? { ...f, expiresAt: data.expiresAt } : f)))
+      toast({
+        title: "保存期間を延長しました",
+        description: `${new Date(data.expiresAt).toLocaleString("ja-JP")} に削除されます。`,
+      })
+    } catch (error) {
+      toast({
+        title: "延長エラー",
+        description: `保存期間の延長に失敗しました: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      })
+    } finally {
+      setExtendingFiles((prev) => {
+        const newSet = new Set(prev)
+        newSet.delete(file.id)
+        return newSet
+      })
+    }
+  }
+
+  const downloadFile = async (file: FileItem) => {
+    // The download page asks for the password first
+    if (file.passwordProtected) {
+      window.open(file.shareUrl, "_blank")
+      return
+    }
+
+    try {
+      // The URL from the upload may have run out by now
+      const response = await fetch(`/api/get-metadata/${file.id}`, { headers: { "Cache-Control": "no-cache" } })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to get download URL")
+      }
+      setDownloadingFile({ ...file, downloadUrl: data.downloadUrl })
+    } catch (error) {
+      toast({
+        title: "ダウンロードエラー",
+        description: `ダウンロードを開始できませんでした: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      })
+    }
   }
 
   return (
@@ -567,7 +875,7 @@ export default function FileTransferSite() {
             </div>
             <div className="flex items-center gap-2 text-orange-600">
               <Clock className="h-4 w-4" />
-              <span>24時間自動削除</span>
+              <span>最長{formatLifetime(MAX_LIFETIME_HOURS)}で自動削除</span>
             </div>
           </div>
         </div>
@@ -597,6 +905,97 @@ export default function FileTransferSite() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            <div className="flex items-center justify-between p-3 bg-orange-50 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <Clock className="h-4 w-4 text-orange-600" />
+                <Label htmlFor="lifetime" className="text-sm font-medium">
+                  保存期間
+                </Label>
+              </div>
+              <Select
+                value={String(lifetimeHours)}
+                onValueChange={(value) => setLifetimeHours(Number(value))}
+                disabled={isUploading}
+              >
+                <SelectTrigger id="lifetime" className="h-8 w-28 bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LIFETIME_OPTIONS.map((hours) => (
+                    <SelectItem key={hours} value={String(hours)}>
+                      {formatLifetime(hours)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between p-3 bg-orange-50 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <Flame className="h-4 w-4 text-orange-600" />
+                <Label htmlFor="max-downloads" className="text-sm font-medium">
+                  ダウンロード回数
+                </Label>
+              </div>
+              <Select
+                value={String(maxDownloads)}
+                onValueChange={(value) => setMaxDownloads(Number(value))}
+                disabled={isUploading}
+              >
+                <SelectTrigger id="max-downloads" className="h-8 w-40 bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MAX_DOWNLOADS_OPTIONS.map((count) => (
+                    <SelectItem key={count} value={String(count)}>
+                      {count === 0 ? "無制限" : count === 1 ? "1回 (閲覧後に削除)" : `${count}回`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between gap-4 p-3 bg-orange-50 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <Lock className="h-4 w-4 text-orange-600" />
+                <Label htmlFor="link-password" className="text-sm font-medium whitespace-nowrap">
+                  パスワード
+                </Label>
+              </div>
+              <Input
+                id="link-password"
+                type="password"
+                autoComplete="new-password"
+                placeholder="設定しない"
+                value={linkPassword}
+                onChange={(e) => setLinkPassword(e.target.value)}
+                maxLength={128}
+                disabled={isUploading}
+                className="h-8 max-w-48 bg-white"
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4 p-3 bg-green-50 rounded-lg">
+              <div className="space-y-0.5">
+                <div className="flex items-center space-x-2">
+                  <ShieldCheck className="h-4 w-4 text-green-600" />
+                  <Label htmlFor="encryption-toggle" className="text-sm font-medium">
+                    エンドツーエンド暗号化
+                  </Label>
+                </div>
+                <p className="text-xs text-gray-600">
+                  ブラウザ内で暗号化し、鍵は共有リンクにのみ含まれます。暗号化したファイルは圧縮されません。
+                  ファイル名とサイズは暗号化されず、サーバーに保存されます。
+                </p>
+              </div>
+              <Switch
+                id="encryption-toggle"
+                checked={encryptionEnabled}
+                onCheckedChange={setEncryptionEnabled}
+                disabled={isUploading}
+              />
+            </div>
+
             <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
               <div className="flex items-center space-x-2">
                 <Archive className="h-4 w-4 text-blue-600" />
@@ -606,17 +1005,72 @@ export default function FileTransferSite() {
               </div>
               <Switch
                 id="compression-toggle"
-                checked={compressionEnabled}
+                checked={compressionEnabled && !encryptionEnabled}
                 onCheckedChange={setCompressionEnabled}
-                disabled={isUploading}
+                disabled={isUploading || encryptionEnabled}
+              />
+            </div>
+
+            <div className="flex flex-col gap-3 p-3 bg-blue-50 rounded-lg md:flex-row md:items-center">
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="compression-codec" className="text-sm font-medium whitespace-nowrap">
+                  圧縮形式
+                </Label>
+                <Select
+                  value={compressionCodec}
+                  onValueChange={(value) => {
+                    const codec = value as CompressionCodec
+                    setCompressionCodec(codec)
+                    setCompressionLevel(COMPRESSION_CODECS[codec].defaultLevel)
+                  }}
+                  disabled={isUploading || !compressionEnabled || encryptionEnabled}
+                >
+                  <SelectTrigger id="compression-codec" className="h-8 w-36 bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(COMPRESSION_CODECS) as CompressionCodec[]).map((codec) => (
+                      <SelectItem key={codec} value={codec}>
+                        {COMPRESSION_CODECS[codec].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex flex-1 items-center space-x-3">
+                <Label className="text-sm font-medium whitespace-nowrap">圧縮レベル</Label>
+                <Slider
+                  value={[compressionLevel]}
+                  min={COMPRESSION_CODECS[compressionCodec].minLevel}
+                  max={COMPRESSION_CODECS[compressionCodec].maxLevel}
+                  step={1}
+                  onValueChange={([level]) => setCompressionLevel(level)}
+                  disabled={isUploading || !compressionEnabled || encryptionEnabled}
+                />
+                <span className="w-6 text-right text-sm text-gray-600">{compressionLevel}</span>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <Archive className="h-4 w-4 text-blue-600" />
+                <Label htmlFor="framed-compression-toggle" className="text-sm font-medium">
+                  分割圧縮（途中からのダウンロードを高速化）
+                </Label>
+              </div>
+              <Switch
+                id="framed-compression-toggle"
+                checked={framedCompression}
+                onCheckedChange={setFramedCompression}
+                disabled={isUploading || !compressionEnabled || encryptionEnabled}
               />
             </div>
 
             <Alert>
               <Info className="h-4 w-4" />
               <AlertDescription className="text-sm">
-                スマート圧縮は、既に圧縮されているファイル（ZIP、画像、動画など）を自動検出し、
-                圧縮効果が期待できるファイルのみを圧縮します。
+                スマート圧縮は、ファイル先頭のシグネチャと抜き取りサンプルの試験圧縮から圧縮効果を推定し、
+                効果が期待できるファイルのみを圧縮します。
               </AlertDescription>
             </Alert>
 
@@ -645,15 +1099,39 @@ export default function FileTransferSite() {
                 {isUploading ? "クラウドに保存中..." : "ファイルをクラウドにアップロード"}
               </p>
               <p className="text-sm text-gray-500 mb-4">または</p>
-              <Button variant="outline" disabled={isUploading}>
-                {isUploading ? "処理中..." : "ファイルを選択"}
-              </Button>
+              <div className="flex flex-wrap justify-center gap-2">
+                <Button variant="outline" disabled={isUploading}>
+                  {isUploading ? "処理中..." : "ファイルを選択"}
+                </Button>
+                <Button
+                  variant="outline"
+                  disabled={isUploading}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    folderInputRef.current?.click()
+                  }}
+                >
+                  <FolderOpen className="h-4 w-4 mr-2" />
+                  フォルダを選択
+                </Button>
+              </div>
               <input
                 ref={fileInputRef}
                 type="file"
                 multiple
                 className="hidden"
-                onChange={(e) => handleFileSelect(e.target.files)}
+                onChange={(e) => e.target.files && handleFileSelect(filesFromInput(e.target.files))}
+                disabled={isUploading}
+              />
+              {/* webkitdirectory is not in React's input props, hence the spread */}
+              <input
+                ref={folderInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                {...{ webkitdirectory: "" }}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => e.target.files && handleFileSelect(filesFromInput(e.target.files))}
                 disabled={isUploading}
               />
             </div>
@@ -677,13 +1155,16 @@ export default function FileTransferSite() {
                   chunks={progress.chunks || []}
                   totalChunks={progress.totalChunks || 0}
                   uploadedChunks={progress.uploadedChunks || 0}
-                  currentChunk={progress.currentChunk || 0}
+                  activeChunks={progress.activeChunks || []}
+                  concurrency={progress.concurrency || 1}
                   uploadSpeed={progress.uploadSpeed || 0}
                   estimatedTimeRemaining={progress.estimatedTimeRemaining || 0}
                   totalBytes={progress.totalBytes || 0}
                   uploadedBytes={progress.uploadedBytes || 0}
                   showDetails={progress.showDetails || false}
                   compressionRatio={progress.compressionRatio}
+                  compressionProgress={progress.compressionProgress}
+                  estimatedSavings={progress.estimatedSavings}
                   onToggleDetails={() => {
                     setUploadProgress((prev) =>
                       prev.map((p, i) => (i === index ? { ...p, showDetails: !p.showDetails } : p)),
@@ -702,12 +1183,57 @@ export default function FileTransferSite() {
               fileId={downloadingFile.id}
               fileName={downloadingFile.name}
               fileSize={downloadingFile.compressed ? downloadingFile.originalSize : downloadingFile.size}
-              downloadUrl={`/api/download-stream/${downloadingFile.id}`}
+              downloadUrl={downloadingFile.downloadUrl}
+              encryption={downloadingFile.encryption}
+              encryptionKey={downloadingFile.encryptionKey}
               onClose={() => setDownloadingFile(null)}
             />
           </div>
         )}
 
+        {/* Collections */}
+        {collections.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Files className="h-5 w-5" />
+                まとめて共有 ({collections.length})
+              </CardTitle>
+              <CardDescription>複数のファイルやフォルダを1つのリンクで共有できます</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {collections.map((collection) => (
+                  <div
+                    key={collection.id}
+                    className="flex items-center justify-between gap-3 p-3 md:p-4 border rounded-lg bg-white"
+                  >
+                    <div className="flex items-center gap-3 flex-1 min-w-0">
+                      <Files className="h-6 w-6 md:h-8 md:w-8 text-blue-500 flex-shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium text-sm md:text-base truncate">{collection.name}</p>
+                        <div className="flex items-center gap-2 text-xs md:text-sm text-gray-500">
+                          <span>{collection.fileCount} ファイル</span>
+                          <span>•</span>
+                          <span>{formatFileSize(collection.size)}</span>
+                        </div>
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openShareModal({ ...collection, kind: "collection" })}
+                    >
+                      <Share2 className="h-4 w-4 sm:mr-1" />
+                      <span className="hidden sm:inline">共有</span>
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Files List */}
         {files.length > 0 && (
           <Card>
@@ -747,7 +1273,9 @@ export default function FileTransferSite() {
                           <span>•</span>
                           <span className="text-green-600">ストリーミング対応</span>
                           <span>•</span>
-                          <span className="text-orange-600">24h後削除</span>
+                          <span className="text-orange-600">
+                            {new Date(file.expiresAt).toLocaleString("ja-JP")} に削除
+                          </span>
                           <span>•</span>
                           <span className="hidden sm:inline">{new Date(file.uploadedAt).toLocaleString("ja-JP")}</span>
                           <span className="sm:hidden">{new Date(file.uploadedAt).toLocaleDateString("ja-JP")}</span>
@@ -779,6 +1307,34 @@ export default function FileTransferSite() {
                       >
                         <Share2 className="h-4 w-4" />
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => extendFile(file)}
+                        disabled={extendingFiles.has(file.id)}
+                        className="hidden sm:flex"
+                        title={`今から${formatLifetime(lifetimeHours)}後に削除されるようにします`}
+                      >
+                        {extendingFiles.has(file.id) ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <Clock className="h-4 w-4 mr-1" />
+                        )}
+                        延長
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => extendFile(file)}
+                        disabled={extendingFiles.has(file.id)}
+                        className="sm:hidden p-2"
+                      >
+                        {extendingFiles.has(file.id) ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Clock className="h-4 w-4" />
+                        )}
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -818,7 +1374,7 @@ export default function FileTransferSite() {
         <Alert>
           <Zap className="h-4 w-4" />
           <AlertDescription className="text-sm">
-            ファイルはVercel Blobクラウドストレージに安全に保存され、24時間後に自動的に削除されます。
+            ファイルはVercel Blobクラウドストレージに安全に保存され、選んだ保存期間が過ぎると自動的に削除されます。
             高速ストリーミングダウンロード、レジューム機能、スマート圧縮により最高のファイル転送体験を提供します。
             大容量ファイルも効率的に処理し、ダウンロード時は自動的に展開されます。
           </AlertDescription>
@@ -35,7 +35,8 @@ interface DetailedProgressProps {
   chunks: ChunkProgress[]
   totalChunks: number
   uploadedChunks: number
-  currentChunk: number
+  activeChunks: number[]
+  concurrency: number
   uploadSpeed: number
   estimatedTimeRemaining: number
   totalBytes: number
@@ -43,6 +44,8 @@ interface DetailedProgressProps {
   showDetails: boolean
   onToggleDetails: () => void
   compressionRatio?: number
+  compressionProgress?: number
+  estimatedSavings?: number
 }
 
 export function DetailedProgress({
@@ -52,7 +55,8 @@ export function DetailedProgress({
   chunks,
   totalChunks,
   uploadedChunks,
-  currentChunk,
+  activeChunks,
+  concurrency,
   uploadSpeed,
   estimatedTimeRemaining,
   totalBytes,
@@ -60,6 +64,8 @@ export function DetailedProgress({
   showDetails,
   onToggleDetails,
   compressionRatio,
+  compressionProgress,
+  estimatedSavings,
 }: DetailedProgressProps) {
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return "0 B"
@@ -157,9 +163,27 @@ export function DetailedProgress({
             </div>
           )}
 
+          {/* Compression runs in a worker while the first chunks upload */}
+          {status === "compressing" && compressionProgress !== undefined && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-xs text-gray-600">
+                <div className="flex items-center gap-1">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  <span>圧縮中</span>
+                </div>
+                <span>{compressionProgress}%</span>
+              </div>
+              <Progress value={compressionProgress} className="h-1" />
+            </div>
+          )}
+
           {/* Compression Info */}
-          {compressionRatio && compressionRatio > 0 && (
+          {compressionRatio && compressionRatio > 0 ? (
             <div className="text-xs text-green-600">圧縮率: {compressionRatio.toFixed(1)}%</div>
+          ) : (
+            estimatedSavings !== undefined && (
+              <div className="text-xs text-green-600">推定削減率: 約 {estimatedSavings.toFixed(0)}%</div>
+            )
           )}
         </div>
       </CardHeader>
@@ -172,9 +196,9 @@ export function DetailedProgress({
               <div className="flex items-center gap-2">
                 <HardDrive className="h-4 w-4 text-gray-500" />
                 <div>
-                  <div className="font-medium">現在のチャンク</div>
+                  <div className="font-medium">同時アップロード</div>
                   <div className="text-gray-500">
-                    {currentChunk + 1} / {totalChunks}
+                    {activeChunks.length} / {concurrency}
                   </div>
                 </div>
               </div>
@@ -208,6 +232,32 @@ export function DetailedProgress({
               )}
             </div>
 
+            {/* In-flight Chunks */}
+            {activeChunks.length > 0 && (
+              <div>
+                <div className="text-sm font-medium mb-2">転送中のチャンク</div>
+                <div className="space-y-1 text-xs">
+                  {activeChunks.map((index) => {
+                    const chunk = chunks[index]
+                    if (!chunk) return null
+                    return (
+                      <div key={index} className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          {getChunkStatusIcon(chunk.status)}
+                          <span>チャンク {index + 1}</span>
+                        </div>
+                        <span className="text-gray-500">
+                          {formatFileSize(chunk.size)}
+                          {chunk.startTime && ` ・ ${formatTime((Date.now() - chunk.startTime) / 1000)}経過`}
+                          {chunk.retryCount > 0 && ` ・ ${chunk.retryCount}回再試行`}
+                        </span>
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Chunk Grid Visualization */}
             <div>
               <div className="text-sm font-medium mb-2">チャンク進捗</div>
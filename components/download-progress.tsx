@@ -7,12 +7,16 @@ import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
 import { Download, Pause, Play, RotateCcw, CheckCircle, AlertCircle, Zap, Clock, HardDrive, X } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { type EncryptionParams, type RecordCipher, createDecryptor, importKey } from "@/lib/encryption"
 
 interface DownloadProgressProps {
   fileId: string
   fileName: string
   fileSize: number
   downloadUrl: string
+  // Set for end-to-end encrypted files, which are decrypted as they arrive
+  encryption?: EncryptionParams
+  encryptionKey?: string
   onClose: () => void
 }
 
@@ -26,7 +30,15 @@ interface DownloadState {
   error?: string
 }
 
-export function DownloadProgress({ fileId, fileName, fileSize, downloadUrl, onClose }: DownloadProgressProps) {
+export function DownloadProgress({
+  fileId,
+  fileName,
+  fileSize,
+  downloadUrl,
+  encryption,
+  encryptionKey,
+  onClose,
+}: DownloadProgressProps) {
   const [downloadState, setDownloadState] = useState<DownloadState>({
     status: "idle",
     progress: 0,
@@ -41,6 +53,11 @@ export function DownloadProgress({ fileId, fileName, fileSize, downloadUrl, onCl
   const startTimeRef = useRef<number>(0)
   const lastProgressTimeRef = useRef<number>(0)
   const lastDownloadedBytesRef = useRef<number>(0)
+  // Received bytes survive a pause so that a resume only fetches the rest
+  const chunksRef = useRef<Uint8Array[]>([])
+  const receivedBytesRef = useRef<number>(0)
+  // Holds the partial record of an encrypted file across a pause
+  const decryptorRef = useRef<RecordCipher | null>(null)
 
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return "0 B"
@@ -81,7 +98,7 @@ export function DownloadProgress({ fileId, fileName, fileSize, downloadUrl, onCl
         headers.Range = `bytes=${resumeFrom}-`
       }
 
-      const response = await fetch(`/api/download-stream/${fileId}`, {
+      const response = await fetch(downloadUrl, {
         headers,
         signal,
       })
@@ -90,8 +107,30 @@ export function DownloadProgress({ fileId, fileName, fileSize, downloadUrl, onCl
         throw new Error(`HTTP ${response.status}: ${response.statusText}`)
       }
 
+      // Without a 206 the server sent the whole file again, so start over
+      if (response.status !== 206) {
+        resumeFrom = 0
+        chunksRef.current = []
+        receivedBytesRef.current = 0
+        lastDownloadedBytesRef.current = 0
+        decryptorRef.current = null
+      }
+
+      if (encryption && !encryptionKey) {
+        throw new Error("暗号化キーがありません")
+      }
+      if (encryption && encryptionKey && !decryptorRef.current) {
+        decryptorRef.current = createDecryptor(await importKey(encryptionKey), encryption)
+      }
+      const decryptor = decryptorRef.current
+
+      const contentRange = response.headers.get("content-range")?.match(/\/(\d+)$/)
       const contentLength = response.headers.get("content-length")
-      const totalBytes = contentLength ? Number.parseInt(contentLength, 10) + resumeFrom : fileSize
+      const totalBytes = contentRange
+        ? Number.parseInt(contentRange[1], 10)
+        : contentLength
+          ? Number.parseInt(contentLength, 10) + resumeFrom
+          : fileSize
 
       setDownloadState((prev) => ({
         ...prev,
@@ -103,7 +142,6 @@ export function DownloadProgress({ fileId, fileName, fileSize, downloadUrl, onCl
         throw new Error("Response body is not readable")
       }
 
-      const chunks: Uint8Array[] = []
       let downloadedBytes = resumeFrom
 
       while (true) {
@@ -111,8 +149,9 @@ export function DownloadProgress({ fileId, fileName, fileSize, downloadUrl, onCl
 
         if (done) break
 
-        chunks.push(value)
+        chunksRef.current.push(...(decryptor ? await decryptor.update(value) : [value]))
         downloadedBytes += value.length
+        receivedBytesRef.current = downloadedBytes
 
         // Calculate speed and ETA
         const now = Date.now()
@@ -138,8 +177,14 @@ export function DownloadProgress({ fileId, fileName, fileSize, downloadUrl, onCl
         }
       }
 
+      if (decryptor) {
+        chunksRef.current.push(...(await decryptor.final()))
+        decryptorRef.current = null
+      }
+
       // Create and download the file
-      const blob = new Blob(chunks)
+      const blob = new Blob(chunksRef.current)
+      chunksRef.current = []
       const url = window.URL.createObjectURL(blob)
       const a = document.createElement("a")
       a.href = url
@@ -167,7 +212,12 @@ export function DownloadProgress({ fileId, fileName, fileSize, downloadUrl, onCl
           status: "paused",
         }))
       } else {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error"
+        const errorMessage =
+          error instanceof Error && error.name === "OperationError"
+            ? "復号に失敗しました。リンクの暗号化キーが正しいか確認してください"
+            : error instanceof Error
+              ? error.message
+              : "Unknown error"
         setDownloadState((prev) => ({
           ...prev,
           status: "error",
@@ -184,7 +234,7 @@ export function DownloadProgress({ fileId, fileName, fileSize, downloadUrl, onCl
   }
 
   const handleStart = () => {
-    downloadWithProgress(downloadState.downloadedBytes)
+    downloadWithProgress(receivedBytesRef.current)
   }
 
   const handlePause = () => {
@@ -194,7 +244,7 @@ export function DownloadProgress({ fileId, fileName, fileSize, downloadUrl, onCl
   }
 
   const handleResume = () => {
-    downloadWithProgress(downloadState.downloadedBytes)
+    downloadWithProgress(receivedBytesRef.current)
   }
 
   const handleRestart = () => {
@@ -206,6 +256,9 @@ export function DownloadProgress({ fileId, fileName, fileSize, downloadUrl, onCl
       estimatedTimeRemaining: 0,
       error: undefined,
     }))
+    chunksRef.current = []
+    receivedBytesRef.current = 0
+    decryptorRef.current = null
     downloadWithProgress(0)
   }
 
@@ -12,6 +12,13 @@ interface FileItem {
   size: number
   uploadedAt: string
   downloadUrl: string
+  expiresAt?: string
+  // A collection is shared through its own page listing all of its files
+  kind?: "file" | "collection"
+  fileCount?: number
+  passwordProtected?: boolean
+  // Key of an end-to-end encrypted file, carried in the link's #fragment
+  encryptionKey?: string
 }
 
 interface ShareModalProps {
@@ -25,13 +32,22 @@ export function ShareModal({ file, isOpen, onClose }: ShareModalProps) {
   const [copySuccess, setCopySuccess] = useState(false)
   const [qrLoading, setQrLoading] = useState(true)
   const { toast } = useToast()
+  const isCollection = file.kind === "collection"
+  const subject = isCollection ? `${file.name} (${file.fileCount ?? 0} ファイル)` : file.name
+  const expiryNotice = file.expiresAt
+    ? `このリンクは ${new Date(file.expiresAt).toLocaleString("ja-JP")} に無効になります`
+    : "このリンクは保存期間が過ぎると無効になります"
 
   useEffect(() => {
     if (isOpen && file) {
-      const url = `${window.location.origin}/download/${file.id}`
+      const fragment = file.encryptionKey ? `#${file.encryptionKey}` : ""
+      const url = `${window.location.origin}/download/${isCollection ? "c/" : ""}${file.id}${fragment}`
       setShareUrl(url)
       setQrLoading(true)
 
+      // The QR image is rendered by an outside service, which must never see an encryption key
+      if (file.encryptionKey) return
+
       // Generate QR code
       setTimeout(() => {
         generateQRCode(url, `qr-${file.id}`)
@@ -104,18 +120,17 @@ export function ShareModal({ file, isOpen, onClose }: ShareModalProps) {
   }
 
   const shareViaEmail = () => {
-    const subject = `ファイル共有: ${file.name}`
-    const body = `以下のリンクからファイルをダウンロードできます:\n\n${shareUrl}\n\nファイル名: ${file.name}\nサイズ: ${formatFileSize(file.size)}\n\n※このリンクは24時間後に無効になります。`
-    window.open(`mailto:?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`)
+    const body = `以下のリンクからファイルをダウンロードできます:\n\n${shareUrl}\n\n${isCollection ? "共有名" : "ファイル名"}: ${subject}\nサイズ: ${formatFileSize(file.size)}\n\n※${expiryNotice}。`
+    window.open(`mailto:?subject=${encodeURIComponent(`ファイル共有: ${subject}`)}&body=${encodeURIComponent(body)}`)
   }
 
   const shareViaWhatsApp = () => {
-    const message = `ファイルを共有します: ${file.name}\n${shareUrl}\n\n※このリンクは24時間後に無効になります。`
+    const message = `ファイルを共有します: ${subject}\n${shareUrl}\n\n※${expiryNotice}。`
     window.open(`https://wa.me/?text=${encodeURIComponent(message)}`)
   }
 
   const shareViaLine = () => {
-    const message = `ファイルを共有します: ${file.name}\n${shareUrl}`
+    const message = `ファイルを共有します: ${subject}\n${shareUrl}`
     window.open(
       `https://social-plugins.line.me/lineit/share?url=${encodeURIComponent(shareUrl)}&text=${encodeURIComponent(message)}`,
     )
@@ -143,7 +158,7 @@ export function ShareModal({ file, isOpen, onClose }: ShareModalProps) {
             <div className="flex items-center justify-between">
               <CardTitle className="flex items-center gap-2 text-lg">
                 <Share2 className="h-5 w-5" />
-                ファイルを共有
+                {isCollection ? "まとめて共有" : "ファイルを共有"}
               </CardTitle>
               <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
                 <X className="h-4 w-4" />
@@ -155,11 +170,16 @@ export function ShareModal({ file, isOpen, onClose }: ShareModalProps) {
             {/* File Info */}
             <div className="bg-gray-50 rounded-lg p-3 space-y-2">
               <div>
-                <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">ファイル名</p>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+                  {isCollection ? "共有名" : "ファイル名"}
+                </p>
                 <p className="text-sm text-gray-900 break-all font-medium">{file.name}</p>
               </div>
               <div className="flex justify-between text-xs text-gray-500">
-                <span>サイズ: {formatFileSize(file.size)}</span>
+                <span>
+                  サイズ: {formatFileSize(file.size)}
+                  {isCollection && ` ・ ${file.fileCount ?? 0} ファイル`}
+                </span>
                 <span>{new Date(file.uploadedAt).toLocaleDateString("ja-JP")}</span>
               </div>
             </div>
@@ -186,19 +206,21 @@ export function ShareModal({ file, isOpen, onClose }: ShareModalProps) {
             </div>
 
             {/* QR Code */}
-            <div className="text-center space-y-2">
-              <p className="text-sm font-medium text-gray-700">QRコード</p>
-              <div className="flex justify-center">
-                <div className="bg-white p-3 rounded-lg border shadow-sm">
-                  {qrLoading && (
-                    <div className="qr-loading flex items-center justify-center w-[120px] h-[120px]">
-                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-400"></div>
-                    </div>
-                  )}
-                  <div id={`qr-${file.id}`} className="min-h-[120px] flex items-center justify-center" />
+            {!file.encryptionKey && (
+              <div className="text-center space-y-2">
+                <p className="text-sm font-medium text-gray-700">QRコード</p>
+                <div className="flex justify-center">
+                  <div className="bg-white p-3 rounded-lg border shadow-sm">
+                    {qrLoading && (
+                      <div className="qr-loading flex items-center justify-center w-[120px] h-[120px]">
+                        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-400"></div>
+                      </div>
+                    )}
+                    <div id={`qr-${file.id}`} className="min-h-[120px] flex items-center justify-center" />
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
 
             {/* Share Options */}
             <div className="space-y-3">
@@ -245,8 +267,24 @@ export function ShareModal({ file, isOpen, onClose }: ShareModalProps) {
 
             {/* Warning */}
             <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
-              <p className="text-xs text-amber-800 text-center">⚠️ このリンクは24時間後に自動的に無効になります</p>
+              <p className="text-xs text-amber-800 text-center">⚠️ {expiryNotice}</p>
             </div>
+
+            {file.encryptionKey && (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+                <p className="text-xs text-green-800 text-center">
+                  🛡️ リンクの # 以降が復号キーです。サーバーには保存されていないため、リンクを失うと復号できません。
+                </p>
+              </div>
+            )}
+
+            {file.passwordProtected && (
+              <div className="bg-orange-50 border border-orange-200 rounded-lg p-3">
+                <p className="text-xs text-orange-800 text-center">
+                  🔒 ダウンロードにはパスワードが必要です。パスワードはリンクとは別の方法で伝えてください。
+                </p>
+              </div>
+            )}
           </CardContent>
 
           {/* Actions */}
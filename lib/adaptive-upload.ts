@@ -0,0 +1,86 @@
+const MiB = 1024 * 1024
+
+// Worker pool limits; the maximum can be tuned per deployment
+export const UPLOAD_CONCURRENCY = {
+  min: 1,
+  initial: 3,
+  max: Number(process.env.NEXT_PUBLIC_UPLOAD_MAX_CONCURRENCY) || 6,
+}
+
+// Multipart parts must be at least 5 MiB, except the last
+export const UPLOAD_CHUNK_SIZE = {
+  min: 5 * MiB,
+  max: 16 * MiB,
+}
+
+// A chunk should take about this long, so slow links keep small chunks and cheap retries
+const TARGET_CHUNK_SECONDS = 4
+
+/**
+ * Chooses the chunk size for the next file from the throughput measured so far.
+ * Sessions fix the chunk size, so it can only change between files.
+ */
+export function pickChunkSize(bytesPerSecond: number): number {
+  const target = Math.round((bytesPerSecond * TARGET_CHUNK_SECONDS) / MiB) * MiB
+  return Math.min(UPLOAD_CHUNK_SIZE.max, Math.max(UPLOAD_CHUNK_SIZE.min, target))
+}
+
+export interface ConcurrencyController {
+  readonly concurrency: number
+  // Total throughput over the last completed window, in bytes per second
+  readonly throughput: number
+  recordSuccess(bytes: number): void
+  recordFailure(): void
+}
+
+/**
+ * Additive increase / multiplicative decrease over windows of `concurrency` chunks:
+ * a failure halves the pool, a window faster than the best so far adds a worker and
+ * a clearly slower one removes a worker.
+ */
+export function createConcurrencyController(initial = UPLOAD_CONCURRENCY.initial): ConcurrencyController {
+  let concurrency = Math.min(UPLOAD_CONCURRENCY.max, Math.max(UPLOAD_CONCURRENCY.min, initial))
+  let bestThroughput = 0
+  let throughput = 0
+  let windowStart = Date.now()
+  let windowBytes = 0
+  let windowChunks = 0
+
+  const resetWindow = () => {
+    windowStart = Date.now()
+    windowBytes = 0
+    windowChunks = 0
+  }
+
+  return {
+    get concurrency() {
+      return concurrency
+    },
+
+    get throughput() {
+      return throughput
+    },
+
+    recordSuccess(bytes) {
+      windowBytes += bytes
+      windowChunks++
+      if (windowChunks < concurrency) return
+
+      const elapsedSec = (Date.now() - windowStart) / 1000
+      throughput = elapsedSec > 0 ? windowBytes / elapsedSec : 0
+
+      if (throughput > bestThroughput * 1.1) {
+        bestThroughput = throughput
+        concurrency = Math.min(UPLOAD_CONCURRENCY.max, concurrency + 1)
+      } else if (throughput < bestThroughput * 0.7) {
+        concurrency = Math.max(UPLOAD_CONCURRENCY.min, concurrency - 1)
+      }
+      resetWindow()
+    },
+
+    recordFailure() {
+      concurrency = Math.max(UPLOAD_CONCURRENCY.min, Math.floor(concurrency / 2))
+      resetWindow()
+    },
+  }
+}
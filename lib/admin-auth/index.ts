@@ -0,0 +1,35 @@
+import { createLocalProvider } from "./local"
+import type { AdminAuthProvider } from "./types"
+
+export type * from "./types"
+export * from "./session"
+
+let cachedProvider: AdminAuthProvider | null = null
+
+/**
+ * Returns the provider selected by `ADMIN_AUTH_PROVIDER`; only "local" exists so far,
+ * configured by `ADMIN_USERNAME` and `ADMIN_PASSWORD_HASH`. Without them nobody can
+ * sign in. The middleware imports ./session directly, because the providers need
+ * Node's crypto.
+ */
+export function getAdminAuthProvider(): AdminAuthProvider {
+  if (cachedProvider) return cachedProvider
+
+  const providerName = process.env.ADMIN_AUTH_PROVIDER || "local"
+
+  switch (providerName) {
+    case "local": {
+      const username = process.env.ADMIN_USERNAME
+      const passwordHash = process.env.ADMIN_PASSWORD_HASH
+      if (!username || !passwordHash) {
+        throw new Error("ADMIN_USERNAME and ADMIN_PASSWORD_HASH are not configured")
+      }
+      cachedProvider = createLocalProvider(username, passwordHash)
+      break
+    }
+    default:
+      throw new Error(`Unknown ADMIN_AUTH_PROVIDER: ${providerName}`)
+  }
+
+  return cachedProvider
+}
@@ -0,0 +1,32 @@
+import { createHash, timingSafeEqual } from "crypto"
+import { verifyPassword } from "@/lib/link-password"
+import type { AdminAuthProvider } from "./types"
+
+const digest = (value: string) => createHash("sha256").update(value).digest()
+
+/**
+ * A single admin account from the environment. The password hash has the format
+ * of lib/link-password's hashPassword and can be generated with:
+ *
+ *   node -e 'const c=require("crypto"),s=c.randomBytes(16);console.log(["scrypt",32768,8,s.toString("base64url"),
+ *     c.scryptSync(process.argv[1].normalize("NFKC"),s,32,{N:32768,r:8,maxmem:1<<26}).toString("base64url")].join("$"))' PASSWORD
+ *
+ * Next.js expands $ in .env files, so every $ of the hash is written as \$ there.
+ */
+export function createLocalProvider(username: string, passwordHash: string): AdminAuthProvider {
+  return {
+    name: "local",
+
+    async authenticate(request) {
+      const credentials = await request.json().catch(() => null)
+      if (typeof credentials?.username !== "string" || typeof credentials?.password !== "string") {
+        return null
+      }
+
+      // Both are always checked, so the response time does not tell whether the username exists
+      const usernameMatches = timingSafeEqual(digest(credentials.username), digest(username))
+      const passwordMatches = await verifyPassword(credentials.password, passwordHash)
+      return usernameMatches && passwordMatches ? { username } : null
+    },
+  }
+}
@@ -0,0 +1,53 @@
+import { getSigningSecret } from "@/lib/signed-url"
+import type { AdminIdentity } from "./types"
+
+/*
+ * Admin sessions live in a signed cookie, so no session store is needed and the
+ * middleware can check them on the Edge runtime. Only Web Crypto is used here.
+ */
+
+export const ADMIN_SESSION_COOKIE = "admin_session"
+
+// A working day; signing in again after that is cheap
+export const ADMIN_SESSION_LIFETIME_MS = 8 * 60 * 60 * 1000
+
+let cachedKey: Promise<CryptoKey> | null = null
+
+const getKey = () =>
+  (cachedKey ??= crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(`admin-session:${getSigningSecret()}`),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  ))
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (c) => c.charCodeAt(0))
+
+// Cookie value of the form <base64url username>.<expiry epoch ms>.<signature>
+export async function createAdminSession(identity: AdminIdentity): Promise<{ value: string; expiresAt: Date }> {
+  const expiresAt = new Date(Date.now() + ADMIN_SESSION_LIFETIME_MS)
+  const payload = `${toBase64Url(new TextEncoder().encode(identity.username))}.${expiresAt.getTime()}`
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", await getKey(), new TextEncoder().encode(payload)))
+  return { value: `${payload}.${toBase64Url(signature)}`, expiresAt }
+}
+
+export async function readAdminSession(value: string | undefined, now = Date.now()): Promise<AdminIdentity | null> {
+  const match = value?.match(/^([A-Za-z0-9_-]+)\.(\d+)\.([A-Za-z0-9_-]+)$/)
+  if (!match || Number(match[2]) <= now) return null
+
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    await getKey(),
+    fromBase64Url(match[3]),
+    new TextEncoder().encode(`${match[1]}.${match[2]}`),
+  )
+  return valid ? { username: new TextDecoder().decode(fromBase64Url(match[1])) } : null
+}
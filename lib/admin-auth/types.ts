@@ -0,0 +1,16 @@
+export interface AdminIdentity {
+  username: string
+}
+
+/*
+ * Decides who may sign in to the admin dashboard. The local provider checks a
+ * username and password posted as JSON; a provider for an external identity
+ * service (OIDC) would instead handle the request its callback redirects to.
+ * Either way the result is an identity, which lib/admin-auth/session turns into
+ * the session cookie.
+ */
+export interface AdminAuthProvider {
+  name: string
+  // Resolves to null when the request does not prove an admin identity
+  authenticate(request: Request): Promise<AdminIdentity | null>
+}
@@ -0,0 +1,20 @@
+import { sha256 } from "@noble/hashes/sha2"
+import { bytesToHex } from "@noble/hashes/utils"
+
+// Hex SHA-256 through Web Crypto, so browsers and route handlers compute the same digest
+export async function sha256Hex(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data)
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+export const isSha256Hex = (value: unknown): value is string => typeof value === "string" && /^[0-9a-f]{64}$/.test(value)
+
+// Same digest for a file of any size, read piece by piece instead of loaded into memory at once
+export async function sha256HexOfBlob(blob: Blob): Promise<string> {
+  const hash = sha256.create()
+  const reader = blob.stream().getReader()
+  for (let read = await reader.read(); !read.done; read = await reader.read()) {
+    hash.update(read.value)
+  }
+  return bytesToHex(hash.digest())
+}
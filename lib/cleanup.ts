@@ -0,0 +1,131 @@
+import type { StorageDriver } from "@/lib/storage"
+import { deleteFile, listMetadataByExpiry, readMetadata } from "@/lib/metadata"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { deleteExpiredCollections } from "@/lib/collections"
+import { deleteExpiredRetrievedRecords } from "@/lib/download-limit"
+import { importLegacyMetadata } from "@/lib/metadata/migrate"
+import { deleteExpiredUploadSessions } from "@/lib/upload-session"
+import { deleteExpiredTusUploads } from "@/lib/tus"
+import { deleteExpiredUnlockAttempts } from "@/lib/unlock-throttle"
+
+const CLEANUP_CONCURRENCY = 8
+
+export interface CleanupResult {
+  deletedCount: number
+  errorCount: number
+  deletedFiles: string[]
+  pagesScanned: number
+  objectsScanned: number
+  deletedCollections: number
+  deletedRetrievedRecords: number
+  importedLegacyRecords: number
+  deletedUploadSessions: number
+  deletedTusUploads: number
+  deletedUnlockAttempts: number
+}
+
+// Deletes every file whose expiry index entry lies in the past, walking all index pages
+export async function cleanupExpiredFiles(storage: StorageDriver): Promise<CleanupResult> {
+  const before = new Date()
+  let deletedCount = 0
+  let errorCount = 0
+
+  // Legacy records have no expiry index entry until they are imported, so they are imported first
+  const migration = await importLegacyMetadata(storage)
+  errorCount += migration.errorCount
+
+  const deletedFiles: string[] = []
+  let pagesScanned = 0
+  let objectsScanned = 0
+  let cursor: string | undefined
+
+  do {
+    const page = await listMetadataByExpiry(storage, { before, cursor })
+    pagesScanned++
+    objectsScanned += page.items.length
+
+    await mapWithConcurrency(page.items, CLEANUP_CONCURRENCY, async ({ fileId, expiresAt }) => {
+      try {
+        const metadata = await readMetadata(storage, fileId)
+        if (!metadata) {
+          console.log("Metadata already gone, skipping:", fileId)
+          return
+        }
+
+        console.log("File expired:", metadata.originalName, "expired at:", expiresAt.toISOString())
+
+        try {
+          await deleteFile(storage, metadata)
+          console.log("Deleted file and metadata:", metadata.id)
+
+          deletedCount++
+          deletedFiles.push(metadata.originalName)
+        } catch (deleteError) {
+          console.error("Error deleting file:", metadata.originalName, deleteError)
+          errorCount++
+        }
+      } catch (error) {
+        console.error("Error processing metadata:", fileId, error)
+        errorCount++
+      }
+    })
+
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  // Collections outlive none of their files, so they are swept with them
+  let deletedCollections = 0
+  try {
+    deletedCollections = await deleteExpiredCollections(storage, before)
+  } catch (error) {
+    console.error("Error deleting expired collections:", error)
+    errorCount++
+  }
+
+  let deletedRetrievedRecords = 0
+  try {
+    deletedRetrievedRecords = await deleteExpiredRetrievedRecords(storage, before)
+  } catch (error) {
+    console.error("Error deleting expired retrieved records:", error)
+    errorCount++
+  }
+
+  // Abandoned uploads leave their session and the chunks, parts or segments received so far
+  let deletedUploadSessions = 0
+  try {
+    deletedUploadSessions = await deleteExpiredUploadSessions(storage, before)
+  } catch (error) {
+    console.error("Error deleting expired upload sessions:", error)
+    errorCount++
+  }
+
+  let deletedTusUploads = 0
+  try {
+    deletedTusUploads = await deleteExpiredTusUploads(storage, before)
+  } catch (error) {
+    console.error("Error deleting expired tus uploads:", error)
+    errorCount++
+  }
+
+  let deletedUnlockAttempts = 0
+  try {
+    deletedUnlockAttempts = await deleteExpiredUnlockAttempts(storage, before)
+  } catch (error) {
+    console.error("Error deleting expired unlock attempts:", error)
+    errorCount++
+  }
+
+  return {
+    deletedCount,
+    errorCount,
+    deletedFiles,
+    pagesScanned,
+    objectsScanned,
+    deletedCollections,
+    deletedRetrievedRecords,
+    importedLegacyRecords: migration.importedCount,
+    deletedUploadSessions,
+    deletedTusUploads,
+    deletedUnlockAttempts,
+  }
+}
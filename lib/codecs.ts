@@ -0,0 +1,41 @@
+// Shared by the uploader and the server; the decoders live in lib/decompression.ts
+
+export type CompressionCodec = "gzip" | "brotli" | "zstd"
+
+export interface CodecInfo {
+  label: string
+  extension: string
+  contentType: string
+  minLevel: number
+  maxLevel: number
+  defaultLevel: number
+}
+
+export const COMPRESSION_CODECS: Record<CompressionCodec, CodecInfo> = {
+  gzip: { label: "gzip", extension: ".gz", contentType: "application/gzip", minLevel: 1, maxLevel: 9, defaultLevel: 6 },
+  brotli: {
+    label: "Brotli",
+    extension: ".br",
+    contentType: "application/x-brotli",
+    minLevel: 0,
+    maxLevel: 11,
+    defaultLevel: 6,
+  },
+  zstd: {
+    label: "Zstandard",
+    extension: ".zst",
+    contentType: "application/zstd",
+    minLevel: 1,
+    maxLevel: 19,
+    defaultLevel: 3,
+  },
+}
+
+export const DEFAULT_CODEC: CompressionCodec = "gzip"
+
+export const isCompressionCodec = (value: unknown): value is CompressionCodec =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(COMPRESSION_CODECS, value)
+
+// Files uploaded before the codec was recorded are gzip
+export const codecOf = (file: { compressed: boolean; codec?: CompressionCodec }): CompressionCodec | null =>
+  file.compressed ? (file.codec ?? DEFAULT_CODEC) : null
@@ -0,0 +1,143 @@
+import type { StorageDriver } from "@/lib/storage"
+import { type FileMetadata, createFileId, readMetadata } from "@/lib/metadata"
+import { getExpiresAt, isExpired } from "@/lib/expiry"
+import { mapWithConcurrency } from "@/lib/concurrency"
+
+export interface CollectionItem {
+  fileId: string
+  // Path inside the shared tree, e.g. "project/src/index.ts"
+  path: string
+}
+
+// Several uploaded files shared under one id
+export interface Collection {
+  id: string
+  name: string
+  items: CollectionItem[]
+  createdAt: string
+  // The record goes away with the last of its files
+  expiresAt: string
+}
+
+const COLLECTION_PREFIX = "collections/"
+const READ_CONCURRENCY = 8
+
+export const collectionKey = (id: string) => `${COLLECTION_PREFIX}${id}.json`
+
+/**
+ * Normalises a client supplied relative path to "a/b/c" form.
+ * Returns null for paths that would escape the tree or are empty.
+ */
+export function normalizeRelativePath(path: string): string | null {
+  const segments = path
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((segment) => segment !== "" && segment !== ".")
+  if (segments.length === 0 || segments.includes("..")) return null
+  return segments.join("/")
+}
+
+const latestExpiry = (files: FileMetadata[]) =>
+  new Date(Math.max(...files.map((metadata) => getExpiresAt(metadata).getTime()))).toISOString()
+
+export async function createCollection(storage: StorageDriver, name: string, fileIds: string[]): Promise<Collection> {
+  const files = await mapWithConcurrency(fileIds, READ_CONCURRENCY, (fileId) => readMetadata(storage, fileId))
+  // An expired file may still be stored until cleanup reaches it, but it is gone for everyone else
+  const missing = fileIds.filter((_, i) => !files[i] || isExpired(files[i]!))
+  if (missing.length > 0) {
+    throw new Error(`Files not found or expired: ${missing.join(", ")}`)
+  }
+
+  const found = files as FileMetadata[]
+  const collection: Collection = {
+    id: createFileId(),
+    name,
+    items: found.map((metadata) => ({ fileId: metadata.id, path: metadata.relativePath ?? metadata.originalName })),
+    createdAt: new Date().toISOString(),
+    expiresAt: latestExpiry(found),
+  }
+
+  await storage.put(collectionKey(collection.id), JSON.stringify(collection), { contentType: "application/json" })
+  return collection
+}
+
+export async function readCollection(storage: StorageDriver, id: string): Promise<Collection | null> {
+  // Ids end up in storage keys, so anything but the generated shape is unknown
+  if (!/^[0-9a-z]+$/i.test(id)) return null
+
+  const stored = await storage.get(collectionKey(id))
+  if (!stored) return null
+  return JSON.parse(await new Response(stored.body).text()) as Collection
+}
+
+// Metadata of every item that still exists, in collection order
+export async function readCollectionFiles(
+  storage: StorageDriver,
+  collection: Collection,
+): Promise<Array<{ item: CollectionItem; metadata: FileMetadata | null }>> {
+  const files = await mapWithConcurrency(collection.items, READ_CONCURRENCY, (item) =>
+    readMetadata(storage, item.fileId).catch(() => null),
+  )
+  return collection.items.map((item, i) => ({ item, metadata: files[i] }))
+}
+
+/**
+ * Recomputes the expiry of every collection that contains the file, after its
+ * lifetime changed. There is no index from files to collections, so every
+ * record is read, as cleanup does; returns how many collections were updated.
+ */
+export async function refreshCollectionExpiry(storage: StorageDriver, fileId: string): Promise<number> {
+  let updated = 0
+  let cursor: string | undefined
+
+  do {
+    const page = await storage.list(COLLECTION_PREFIX, { cursor })
+
+    await mapWithConcurrency(page.objects, READ_CONCURRENCY, async (object) => {
+      const stored = await storage.get(object.key)
+      if (!stored) return
+      const collection = JSON.parse(await new Response(stored.body).text()) as Collection
+      if (!collection.items.some((item) => item.fileId === fileId)) return
+
+      const files = (await readCollectionFiles(storage, collection)).flatMap(({ metadata }) => metadata ?? [])
+      if (files.length === 0) return
+
+      const expiresAt = latestExpiry(files)
+      if (expiresAt === collection.expiresAt) return
+      await storage.put(object.key, JSON.stringify({ ...collection, expiresAt }), { contentType: "application/json" })
+      updated++
+    })
+
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  return updated
+}
+
+// Deletes collection records that expired before `before`; returns how many were removed
+export async function deleteExpiredCollections(storage: StorageDriver, before: Date): Promise<number> {
+  let deleted = 0
+  let cursor: string | undefined
+
+  do {
+    const page = await storage.list(COLLECTION_PREFIX, { cursor })
+    const expired: string[] = []
+
+    await mapWithConcurrency(page.objects, READ_CONCURRENCY, async (object) => {
+      const stored = await storage.get(object.key)
+      if (!stored) return
+      const collection = JSON.parse(await new Response(stored.body).text()) as Collection
+      if (new Date(collection.expiresAt).getTime() <= before.getTime()) {
+        expired.push(object.key)
+      }
+    })
+
+    if (expired.length > 0) {
+      await storage.delete(expired)
+      deleted += expired.length
+    }
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  return deleted
+}
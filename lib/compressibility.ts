@@ -0,0 +1,90 @@
+/*
+ * Decides from the content whether compressing a file is worthwhile. Known
+ * compressed formats are recognised by their signature; everything else is judged
+ * by trial-compressing a few blocks sampled across the file.
+ */
+
+export interface CompressibilityEstimate {
+  compressible: boolean
+  // Expected saving in percent of the original size
+  estimatedSavings: number
+  // Set when a signature of an already compressed format was found
+  format?: string
+}
+
+// Files smaller than this are not worth a compression pass
+export const MIN_COMPRESSIBLE_SIZE = 100 * 1024
+
+// Below this expected saving the file is uploaded as is
+const MIN_SAVINGS_PERCENT = 5
+
+const SAMPLE_COUNT = 8
+const SAMPLE_SIZE = 64 * 1024
+
+interface Signature {
+  format: string
+  bytes: number[]
+  offset?: number
+}
+
+// Formats whose payload is already compressed, so another pass gains next to nothing
+const COMPRESSED_SIGNATURES: Signature[] = [
+  { format: "zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { format: "gzip", bytes: [0x1f, 0x8b] },
+  { format: "bzip2", bytes: [0x42, 0x5a, 0x68] },
+  { format: "xz", bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] },
+  { format: "7z", bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { format: "rar", bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+  { format: "zstd", bytes: [0x28, 0xb5, 0x2f, 0xfd] },
+  { format: "lz4", bytes: [0x04, 0x22, 0x4d, 0x18] },
+  { format: "jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { format: "png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { format: "gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { format: "webp", bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { format: "mp4", bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 },
+  { format: "matroska", bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { format: "mp3", bytes: [0x49, 0x44, 0x33] },
+  { format: "ogg", bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { format: "flac", bytes: [0x66, 0x4c, 0x61, 0x43] },
+]
+
+const matchesSignature = (header: Uint8Array, { bytes, offset = 0 }: Signature) =>
+  bytes.every((byte, i) => header[offset + i] === byte)
+
+async function gzipSize(data: Uint8Array): Promise<number> {
+  const compressed = new Blob([data]).stream().pipeThrough(new CompressionStream("gzip"))
+  return (await new Response(compressed).arrayBuffer()).byteLength
+}
+
+/**
+ * Estimates how much compression would save. Only SAMPLE_COUNT blocks of
+ * SAMPLE_SIZE bytes are read, so this stays fast for files of any size.
+ */
+export async function estimateCompressibility(file: Blob): Promise<CompressibilityEstimate> {
+  if (file.size < MIN_COMPRESSIBLE_SIZE) {
+    return { compressible: false, estimatedSavings: 0 }
+  }
+
+  const header = new Uint8Array(await file.slice(0, 16).arrayBuffer())
+  const signature = COMPRESSED_SIGNATURES.find((candidate) => matchesSignature(header, candidate))
+  if (signature) {
+    return { compressible: false, estimatedSavings: 0, format: signature.format }
+  }
+
+  // Evenly spaced samples, including the start and the end of the file
+  const sampleCount = Math.min(SAMPLE_COUNT, Math.ceil(file.size / SAMPLE_SIZE))
+  const step = sampleCount > 1 ? (file.size - SAMPLE_SIZE) / (sampleCount - 1) : 0
+
+  let sampledBytes = 0
+  let compressedBytes = 0
+  for (let i = 0; i < sampleCount; i++) {
+    const start = Math.floor(i * step)
+    const sample = new Uint8Array(await file.slice(start, start + SAMPLE_SIZE).arrayBuffer())
+    sampledBytes += sample.byteLength
+    // gzip framing costs 18 bytes per sample, which the whole file pays only once
+    compressedBytes += Math.max(0, (await gzipSize(sample)) - 18)
+  }
+
+  const estimatedSavings = Math.max(0, (1 - compressedBytes / sampledBytes) * 100)
+  return { compressible: estimatedSavings >= MIN_SAVINGS_PERCENT, estimatedSavings }
+}
@@ -0,0 +1,119 @@
+import type { CompressionCodec } from "@/lib/codecs"
+import type { CompressionFrames } from "@/lib/metadata"
+import type { CompressionWorkerRequest, CompressionWorkerResponse } from "@/lib/compression.worker"
+
+export interface CompressionResult {
+  compressedSize: number
+  frames?: CompressionFrames
+}
+
+export interface WorkerCompression {
+  // Compressed bytes in the chosen codec, produced only as fast as they are read
+  stream: ReadableStream<Uint8Array>
+  // Settles once the stream has been read to the end
+  result: Promise<CompressionResult>
+}
+
+export interface CompressionOptions {
+  codec: CompressionCodec
+  level: number
+  // > 0 produces independently decodable frames of this many original bytes
+  frameSize: number
+}
+
+/**
+ * Compresses `file` in a Web Worker. `onProgress` receives the original bytes read
+ * and the compressed bytes produced so far.
+ */
+export function compressInWorker(
+  file: File,
+  { codec, level, frameSize }: CompressionOptions,
+  onProgress: (readBytes: number, compressedBytes: number) => void,
+): WorkerCompression {
+  const worker = new Worker(new URL("./compression.worker.ts", import.meta.url), { type: "module" })
+  const send = (message: CompressionWorkerRequest) => worker.postMessage(message)
+
+  let settle: { resolve: (result: CompressionResult) => void; reject: (error: Error) => void }
+  const result = new Promise<CompressionResult>((resolve, reject) => {
+    settle = { resolve, reject }
+  })
+  // Callers that only read the stream still see the failure there
+  result.catch(() => {})
+
+  const stream = new ReadableStream<Uint8Array>({
+    start() {
+      send({ type: "start", file, frameSize, codec, level })
+    },
+
+    pull(controller) {
+      return new Promise<void>((resolve) => {
+        worker.onmessage = (event: MessageEvent<CompressionWorkerResponse>) => {
+          const message = event.data
+          if (message.type === "data") {
+            onProgress(message.readBytes, message.compressedBytes)
+            controller.enqueue(message.data)
+          } else if (message.type === "done") {
+            onProgress(file.size, message.compressedSize)
+            controller.close()
+            worker.terminate()
+            settle.resolve({ compressedSize: message.compressedSize, frames: message.frames })
+          } else {
+            const error = new Error(message.message)
+            controller.error(error)
+            worker.terminate()
+            settle.reject(error)
+          }
+          resolve()
+        }
+        send({ type: "pull" })
+      })
+    },
+
+    cancel() {
+      worker.terminate()
+      settle.reject(new Error("Compression was cancelled"))
+    },
+  })
+
+  return { stream, result }
+}
+
+export interface StreamChunk {
+  index: number
+  data: Blob
+  // Only the last chunk may be shorter than chunkSize
+  final: boolean
+}
+
+/**
+ * Cuts a byte stream into chunkSize blobs. One extra byte is buffered before a
+ * full chunk is handed out, so the last chunk is always known to be the last.
+ */
+export async function* splitIntoChunks(stream: ReadableStream<Uint8Array>, chunkSize: number): AsyncGenerator<StreamChunk> {
+  const reader = stream.getReader()
+  let pieces: Uint8Array[] = []
+  let buffered = 0
+  let index = 0
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      pieces.push(value)
+      buffered += value.byteLength
+
+      while (buffered > chunkSize) {
+        const rest = new Blob(pieces)
+        yield { index: index++, data: rest.slice(0, chunkSize), final: false }
+        pieces = [new Uint8Array(await rest.slice(chunkSize).arrayBuffer())]
+        buffered -= chunkSize
+      }
+    }
+
+    yield { index, data: new Blob(pieces), final: true }
+  } finally {
+    // Stops the worker when the consumer gives up early
+    await reader.cancel()
+  }
+}
@@ -0,0 +1,49 @@
+import type { CompressionFrames } from "@/lib/metadata"
+import type { StorageDriver } from "@/lib/storage"
+import { type ResolvedRange, sliceStream } from "@/lib/http-range"
+import type { CompressionCodec } from "@/lib/codecs"
+import { createDecompressionStream } from "@/lib/decompression"
+
+export function isValidFrames(frames: unknown, originalSize: number): frames is CompressionFrames {
+  if (!frames || typeof frames !== "object") return false
+  const { frameSize, offsets } = frames as CompressionFrames
+  if (!Number.isInteger(frameSize) || frameSize <= 0 || !Array.isArray(offsets)) return false
+
+  const frameCount = Math.max(1, Math.ceil(originalSize / frameSize))
+  return (
+    offsets.length === frameCount + 1 &&
+    offsets[0] === 0 &&
+    offsets.every((offset, i) => Number.isInteger(offset) && (i === 0 || offset > offsets[i - 1]))
+  )
+}
+
+/**
+ * Reads original bytes `range.start`..`range.end` of a framed upload.
+ * Only the compressed bytes of the frames overlapping the range are fetched and inflated.
+ */
+export async function readFramedRange(
+  storage: StorageDriver,
+  key: string,
+  codec: CompressionCodec,
+  frames: CompressionFrames,
+  range: ResolvedRange,
+): Promise<ReadableStream<Uint8Array> | null> {
+  const firstFrame = Math.floor(range.start / frames.frameSize)
+  const lastFrame = Math.floor(range.end / frames.frameSize)
+
+  const compressedRange = { start: frames.offsets[firstFrame], end: frames.offsets[lastFrame + 1] - 1 }
+  const stored = await storage.get(key, compressedRange)
+  if (!stored) return null
+
+  let body = stored.body
+  const offset = stored.range?.start ?? 0
+  if (offset !== compressedRange.start || stored.range?.end !== compressedRange.end) {
+    body = body.pipeThrough(sliceStream(compressedRange.start - offset, compressedRange.end - offset))
+  }
+
+  // The decoder continues across frame boundaries, so the frames inflate as one stream
+  const frameStart = firstFrame * frames.frameSize
+  return body
+    .pipeThrough(createDecompressionStream(codec))
+    .pipeThrough(sliceStream(range.start - frameStart, range.end - frameStart))
+}
@@ -0,0 +1,172 @@
+/*
+ * Compresses a file off the main thread. The output is pull based: every "pull"
+ * message is answered with the next compressed piece, so the worker never runs
+ * further ahead than the uploader asks for and memory stays bounded.
+ */
+import type { CompressionCodec } from "@/lib/codecs"
+import type { CompressionFrames } from "@/lib/metadata"
+
+export type CompressionWorkerRequest =
+  | { type: "start"; file: File; frameSize: number; codec: CompressionCodec; level: number }
+  | { type: "pull" }
+
+export type CompressionWorkerResponse =
+  | { type: "data"; data: Uint8Array; readBytes: number; compressedBytes: number }
+  | { type: "done"; compressedSize: number; frames?: CompressionFrames }
+  | { type: "error"; message: string }
+
+// One compressed stream; push may return nothing until enough input has been buffered
+interface Encoder {
+  push(data: Uint8Array): Uint8Array[]
+  finish(): Uint8Array[]
+}
+
+// zstd-wasm has no streaming API, so input is compressed in blocks of this size, one zstd frame each
+const ZSTD_BLOCK_SIZE = 4 * 1024 * 1024
+const BROTLI_OUTPUT_SIZE = 1024 * 1024
+
+let output: AsyncGenerator<Uint8Array> | null = null
+let readBytes = 0
+let compressedSize = 0
+let frames: CompressionFrames | undefined
+
+const post = (message: CompressionWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer })
+
+async function gzipEncoder(level: number): Promise<() => Encoder> {
+  const pako = await import("pako")
+  return () => {
+    let pieces: Uint8Array[] = []
+    const gzip = new pako.Deflate({ level, gzip: true })
+    gzip.onData = (piece: Uint8Array) => pieces.push(piece)
+
+    const take = () => {
+      if (gzip.err) throw new Error(`gzip: ${gzip.msg}`)
+      const taken = pieces
+      pieces = []
+      return taken
+    }
+    return {
+      push: (data) => (gzip.push(data, false), take()),
+      finish: () => (gzip.push(new Uint8Array(0), true), take()),
+    }
+  }
+}
+
+async function brotliEncoder(level: number): Promise<() => Encoder> {
+  const brotli = await (await import("brotli-wasm")).default
+  return () => {
+    const stream = new brotli.CompressStream(level)
+
+    const run = (input: Uint8Array | undefined) => {
+      const pieces: Uint8Array[] = []
+      let offset = 0
+      let result
+      do {
+        result = stream.compress(input?.subarray(offset), BROTLI_OUTPUT_SIZE)
+        pieces.push(result.buf)
+        offset += result.input_offset
+      } while (result.code === brotli.BrotliStreamResultCode.NeedsMoreOutput)
+      return pieces
+    }
+    return {
+      push: (data) => run(data),
+      finish: () => {
+        const pieces = run(undefined)
+        stream.free()
+        return pieces
+      },
+    }
+  }
+}
+
+async function zstdEncoder(level: number): Promise<() => Encoder> {
+  const zstd = await import("@bokuweb/zstd-wasm")
+  await zstd.init()
+  return () => {
+    let pending: Uint8Array[] = []
+    let pendingBytes = 0
+
+    const flush = () => {
+      const block = new Uint8Array(pendingBytes)
+      let offset = 0
+      for (const piece of pending) {
+        block.set(piece, offset)
+        offset += piece.byteLength
+      }
+      pending = []
+      pendingBytes = 0
+      return [zstd.compress(block, level)]
+    }
+    return {
+      push: (data) => {
+        pending.push(data)
+        pendingBytes += data.byteLength
+        return pendingBytes >= ZSTD_BLOCK_SIZE ? flush() : []
+      },
+      finish: () => (pendingBytes > 0 ? flush() : []),
+    }
+  }
+}
+
+const ENCODERS: Record<CompressionCodec, (level: number) => Promise<() => Encoder>> = {
+  gzip: gzipEncoder,
+  brotli: brotliEncoder,
+  zstd: zstdEncoder,
+}
+
+// Compresses one blob into its own stream, so that it can be decoded without the bytes before it
+async function* compressMember(blob: Blob, createEncoder: () => Encoder): AsyncGenerator<Uint8Array> {
+  const encoder = createEncoder()
+  const reader = blob.stream().getReader()
+
+  while (true) {
+    const { done, value } = await reader.read()
+    const pieces = done ? encoder.finish() : encoder.push(value)
+    if (!done) readBytes += value.byteLength
+
+    for (const piece of pieces) {
+      if (piece.byteLength === 0) continue
+      compressedSize += piece.byteLength
+      yield piece
+    }
+    if (done) return
+  }
+}
+
+// frameSize > 0 starts a new stream every frameSize original bytes so downloads can seek
+async function* compress(file: File, frameSize: number, codec: CompressionCodec, level: number) {
+  const createEncoder = await ENCODERS[codec](level)
+
+  if (frameSize <= 0) {
+    yield* compressMember(file, createEncoder)
+    return
+  }
+
+  const offsets = [0]
+  for (let start = 0; start < Math.max(file.size, 1); start += frameSize) {
+    yield* compressMember(file.slice(start, start + frameSize), createEncoder)
+    offsets.push(compressedSize)
+  }
+  frames = { frameSize, offsets }
+}
+
+self.addEventListener("message", async (event: MessageEvent<CompressionWorkerRequest>) => {
+  try {
+    if (event.data.type === "start") {
+      const { file, frameSize, codec, level } = event.data
+      output = compress(file, frameSize, codec, level)
+      return
+    }
+
+    if (!output) throw new Error("Compression has not been started")
+
+    const { done, value } = await output.next()
+    if (done) {
+      post({ type: "done", compressedSize, frames })
+      return
+    }
+    post({ type: "data", data: value, readBytes, compressedBytes: compressedSize }, [value.buffer])
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : "Unknown error" })
+  }
+})
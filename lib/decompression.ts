@@ -0,0 +1,91 @@
+import { gunzipSync } from "zlib"
+import { BrotliStreamResultCode, DecompressStream } from "brotli-wasm"
+import { Decompress, decompress as zstdDecompress } from "fzstd"
+import type { CompressionCodec } from "@/lib/codecs"
+
+const BROTLI_OUTPUT_SIZE = 1024 * 1024
+
+interface Decoder {
+  push(chunk: Uint8Array): void
+  finish(): void
+}
+
+/*
+ * Framed uploads store one brotli stream per frame. Unlike gzip members and zstd
+ * frames, brotli streams do not decode as one when concatenated, so a new decoder
+ * is started wherever the previous stream ended.
+ */
+function createBrotliDecoder(emit: (data: Uint8Array) => void): Decoder {
+  let stream = new DecompressStream()
+  let ended = false
+
+  return {
+    push(chunk) {
+      let input = chunk
+      let code: number = BrotliStreamResultCode.NeedsMoreInput
+      while (input.byteLength > 0 || code === BrotliStreamResultCode.NeedsMoreOutput) {
+        if (ended) {
+          stream.free()
+          stream = new DecompressStream()
+          ended = false
+        }
+
+        const result = stream.decompress(input, BROTLI_OUTPUT_SIZE)
+        if (result.buf.byteLength > 0) emit(result.buf)
+        input = input.subarray(result.input_offset)
+        code = result.code
+        ended = code === BrotliStreamResultCode.ResultSuccess
+      }
+    },
+    finish() {
+      stream.free()
+      if (!ended) throw new Error("Brotli stream is truncated")
+    },
+  }
+}
+
+function createZstdDecoder(emit: (data: Uint8Array) => void): Decoder {
+  const stream = new Decompress((data) => emit(data))
+  return {
+    push: (chunk) => stream.push(chunk),
+    finish: () => stream.push(new Uint8Array(0), true),
+  }
+}
+
+/**
+ * Returns a transform that decodes a stored stream, including the concatenated
+ * streams of a framed upload.
+ */
+export function createDecompressionStream(codec: CompressionCodec): ReadableWritablePair<Uint8Array, Uint8Array> {
+  if (codec === "gzip") return new DecompressionStream("gzip")
+
+  let decoder: Decoder
+  return new TransformStream<Uint8Array, Uint8Array>({
+    start(controller) {
+      const emit = (data: Uint8Array) => controller.enqueue(data)
+      decoder = codec === "brotli" ? createBrotliDecoder(emit) : createZstdDecoder(emit)
+    },
+    transform(chunk) {
+      decoder.push(chunk)
+    },
+    flush() {
+      decoder.finish()
+    },
+  })
+}
+
+export function decompressBuffer(codec: CompressionCodec, data: Uint8Array): Uint8Array {
+  switch (codec) {
+    case "gzip":
+      return gunzipSync(data)
+    case "zstd":
+      return zstdDecompress(data)
+    case "brotli": {
+      const pieces: Uint8Array[] = []
+      const decoder = createBrotliDecoder((piece) => pieces.push(piece))
+      decoder.push(data)
+      decoder.finish()
+      return Buffer.concat(pieces)
+    }
+  }
+}
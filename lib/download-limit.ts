@@ -0,0 +1,139 @@
+import type { StorageDriver } from "@/lib/storage"
+import {
+  type FileMetadata,
+  countDownloads,
+  deleteFile,
+  recordDownload,
+  releaseDownload,
+  reserveDownload,
+} from "@/lib/metadata"
+import { getExpiresAt } from "@/lib/expiry"
+
+/*
+ * Burn after reading. A file uploaded with maxDownloads lets that many downloads
+ * take a slot before they start, and is deleted once all of them have finished.
+ * A small record of that stays until the file would have expired, so the
+ * download page can tell "already retrieved" from "never existed".
+ */
+
+export const MAX_DOWNLOADS_LIMIT = 100
+
+export interface RetrievedRecord {
+  fileId: string
+  downloads: number
+  retrievedAt: string
+  expiresAt: string
+}
+
+const RETRIEVED_PREFIX = "retrieved/"
+const retrievedKey = (fileId: string) => `${RETRIEVED_PREFIX}${fileId}.json`
+
+export function isValidMaxDownloads(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= MAX_DOWNLOADS_LIMIT
+}
+
+// Downloads left for a limited file, null when it has no limit
+export async function getRemainingDownloads(storage: StorageDriver, metadata: FileMetadata): Promise<number | null> {
+  if (!metadata.maxDownloads) return null
+  return Math.max(0, metadata.maxDownloads - (await countDownloads(storage, metadata.id)))
+}
+
+// Returns the slot marker, or null when the limit was already reached, by this request's competitors included
+export const reserveLimitedDownload = (storage: StorageDriver, metadata: FileMetadata): Promise<string | null> =>
+  reserveDownload(storage, metadata.id, metadata.maxDownloads ?? 0)
+
+/**
+ * Records a finished download of a limited file and deletes the file once the
+ * limit is reached. Returns the number of downloads so far.
+ */
+async function completeLimitedDownload(storage: StorageDriver, metadata: FileMetadata, marker: string) {
+  const downloads = await recordDownload(storage, metadata.id, marker)
+  if (!metadata.maxDownloads || downloads < metadata.maxDownloads) return downloads
+
+  const record: RetrievedRecord = {
+    fileId: metadata.id,
+    downloads,
+    retrievedAt: new Date().toISOString(),
+    expiresAt: getExpiresAt(metadata).toISOString(),
+  }
+  await storage.put(retrievedKey(metadata.id), JSON.stringify(record), { contentType: "application/json" })
+  await deleteFile(storage, metadata)
+
+  console.log("Download limit reached, deleted file:", metadata.id, `${downloads}/${metadata.maxDownloads}`)
+  return downloads
+}
+
+/**
+ * Passes the body through and counts the download once its last byte was read.
+ * A download that is cancelled or fails on the way gives its slot back instead.
+ */
+export function countLimitedDownload(
+  storage: StorageDriver,
+  metadata: FileMetadata,
+  marker: string,
+  body: ReadableStream<Uint8Array>,
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader()
+  const release = () =>
+    releaseDownload(storage, marker).catch((error) => console.error("Failed to release download slot:", marker, error))
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let read
+      try {
+        read = await reader.read()
+      } catch (error) {
+        await release()
+        throw error
+      }
+      if (!read.done) {
+        controller.enqueue(read.value)
+        return
+      }
+      await completeLimitedDownload(storage, metadata, marker)
+      controller.close()
+    },
+    async cancel(reason) {
+      console.log("Download cancelled, releasing its slot:", metadata.id)
+      await release()
+      await reader.cancel(reason)
+    },
+  })
+}
+
+export async function readRetrievedRecord(storage: StorageDriver, fileId: string): Promise<RetrievedRecord | null> {
+  // Ids end up in storage keys, so anything but the generated shape is unknown
+  if (!/^[0-9a-z]+$/i.test(fileId)) return null
+
+  const stored = await storage.get(retrievedKey(fileId))
+  if (!stored) return null
+  return JSON.parse(await new Response(stored.body).text()) as RetrievedRecord
+}
+
+// Deletes records of retrieved files that would have expired before `before`; returns how many were removed
+export async function deleteExpiredRetrievedRecords(storage: StorageDriver, before: Date): Promise<number> {
+  let deleted = 0
+  let cursor: string | undefined
+
+  do {
+    const page = await storage.list(RETRIEVED_PREFIX, { cursor })
+    const expired: string[] = []
+
+    for (const object of page.objects) {
+      const stored = await storage.get(object.key)
+      if (!stored) continue
+      const record = JSON.parse(await new Response(stored.body).text()) as RetrievedRecord
+      if (new Date(record.expiresAt).getTime() <= before.getTime()) {
+        expired.push(object.key)
+      }
+    }
+
+    if (expired.length > 0) {
+      await storage.delete(expired)
+      deleted += expired.length
+    }
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  return deleted
+}
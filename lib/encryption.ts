@@ -0,0 +1,147 @@
+/*
+ * End-to-end encryption in the browser. The file is cut into records of
+ * recordSize bytes, each sealed with AES-GCM under a random key that only ever
+ * travels in the share URL's #fragment, so the server and the storage backend see
+ * nothing but ciphertext. The IV is the file's nonce prefix followed by the record
+ * number, and the last record is sealed with a different additional data byte,
+ * so records can neither be reordered nor cut off without the download failing.
+ */
+
+export const ENCRYPTION_ALGORITHM = "AES-GCM"
+export const ENCRYPTION_RECORD_SIZE = 1024 * 1024
+const TAG_SIZE = 16
+const NONCE_PREFIX_SIZE = 8
+const MAX_RECORD_SIZE = 16 * 1024 * 1024
+
+// Stored with the metadata; holds nothing secret
+export interface EncryptionParams {
+  algorithm: typeof ENCRYPTION_ALGORITHM
+  recordSize: number
+  // base64url, NONCE_PREFIX_SIZE random bytes
+  noncePrefix: string
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (c) => c.charCodeAt(0))
+
+export function isValidEncryptionParams(value: unknown): value is EncryptionParams {
+  if (!value || typeof value !== "object") return false
+  const { algorithm, recordSize, noncePrefix } = value as Record<string, unknown>
+  return (
+    algorithm === ENCRYPTION_ALGORITHM &&
+    Number.isInteger(recordSize) &&
+    (recordSize as number) > 0 &&
+    (recordSize as number) <= MAX_RECORD_SIZE &&
+    typeof noncePrefix === "string" &&
+    /^[A-Za-z0-9_-]{11}$/.test(noncePrefix)
+  )
+}
+
+// Size of the ciphertext for a file of plainSize bytes; an empty file still has one record
+export const encryptedSize = (plainSize: number, recordSize: number) =>
+  plainSize + Math.max(1, Math.ceil(plainSize / recordSize)) * TAG_SIZE
+
+export async function generateEncryption(): Promise<{ key: CryptoKey; params: EncryptionParams }> {
+  const key = await crypto.subtle.generateKey({ name: ENCRYPTION_ALGORITHM, length: 256 }, true, ["encrypt", "decrypt"])
+  const params: EncryptionParams = {
+    algorithm: ENCRYPTION_ALGORITHM,
+    recordSize: ENCRYPTION_RECORD_SIZE,
+    noncePrefix: toBase64Url(crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_SIZE))),
+  }
+  return { key, params }
+}
+
+// The key as it appears in the URL fragment
+export const exportKey = async (key: CryptoKey) => toBase64Url(new Uint8Array(await crypto.subtle.exportKey("raw", key)))
+
+export const importKey = (encoded: string) =>
+  crypto.subtle.importKey("raw", fromBase64Url(encoded), ENCRYPTION_ALGORITHM, false, ["encrypt", "decrypt"])
+
+function recordIv(noncePrefix: Uint8Array, index: number): Uint8Array {
+  const iv = new Uint8Array(12)
+  iv.set(noncePrefix)
+  new DataView(iv.buffer).setUint32(NONCE_PREFIX_SIZE, index)
+  return iv
+}
+
+const FINAL = new Uint8Array([1])
+const NOT_FINAL = new Uint8Array([0])
+
+export interface RecordCipher {
+  // Returns the records completed by this piece of input
+  update(data: Uint8Array): Promise<Uint8Array[]>
+  // Seals or opens the last record; the input must have ended
+  final(): Promise<Uint8Array[]>
+}
+
+/*
+ * Input is buffered until one byte more than a record has arrived, so the last
+ * record is only sealed or opened once the input is known to have ended.
+ */
+function createRecordCipher(
+  key: CryptoKey,
+  params: EncryptionParams,
+  inputRecordSize: number,
+  process: (record: Uint8Array, iv: Uint8Array, final: boolean) => Promise<ArrayBuffer>,
+): RecordCipher {
+  const noncePrefix = fromBase64Url(params.noncePrefix)
+  let pending = new Uint8Array(0)
+  let index = 0
+
+  const run = async (record: Uint8Array, final: boolean) => {
+    if (index > 0xffffffff) throw new Error("File is too large to encrypt")
+    return new Uint8Array(await process(record, recordIv(noncePrefix, index++), final))
+  }
+
+  return {
+    async update(data) {
+      const joined = new Uint8Array(pending.byteLength + data.byteLength)
+      joined.set(pending)
+      joined.set(data, pending.byteLength)
+
+      const output: Uint8Array[] = []
+      let offset = 0
+      while (joined.byteLength - offset > inputRecordSize) {
+        output.push(await run(joined.subarray(offset, offset + inputRecordSize), false))
+        offset += inputRecordSize
+      }
+      pending = joined.slice(offset)
+      return output
+    },
+
+    async final() {
+      const output = [await run(pending, true)]
+      pending = new Uint8Array(0)
+      return output
+    },
+  }
+}
+
+export const createEncryptor = (key: CryptoKey, params: EncryptionParams) =>
+  createRecordCipher(key, params, params.recordSize, (record, iv, final) =>
+    crypto.subtle.encrypt({ name: ENCRYPTION_ALGORITHM, iv, additionalData: final ? FINAL : NOT_FINAL }, key, record),
+  )
+
+// Fails with an OperationError when a record was altered, reordered or the file was cut short
+export const createDecryptor = (key: CryptoKey, params: EncryptionParams) =>
+  createRecordCipher(key, params, params.recordSize + TAG_SIZE, (record, iv, final) =>
+    crypto.subtle.decrypt({ name: ENCRYPTION_ALGORITHM, iv, additionalData: final ? FINAL : NOT_FINAL }, key, record),
+  )
+
+// Wraps a cipher as a stream transform, for piping a file through it
+export function cipherStream(cipher: RecordCipher): TransformStream<Uint8Array, Uint8Array> {
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      for (const record of await cipher.update(chunk)) controller.enqueue(record)
+    },
+    async flush(controller) {
+      for (const record of await cipher.final()) controller.enqueue(record)
+    },
+  })
+}
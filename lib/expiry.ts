@@ -0,0 +1,55 @@
+import type { FileMetadata } from "@/lib/metadata"
+
+/*
+ * File lifetimes. The uploader picks one when starting an upload and the absolute
+ * expiry is stored with the metadata; every route decides through this module
+ * whether a file is still available. Imported by the browser as well, so only
+ * NEXT_PUBLIC_ settings are read here.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+
+export const MIN_LIFETIME_HOURS = 1
+// Files uploaded before lifetimes were configurable have no expiresAt and all had this one
+const LEGACY_LIFETIME_HOURS = 24
+
+// Upper bound set by the operator, never more than 30 days
+export const MAX_LIFETIME_HOURS = Math.min(
+  30 * 24,
+  Math.max(MIN_LIFETIME_HOURS, Number(process.env.NEXT_PUBLIC_MAX_FILE_LIFETIME_HOURS) || 30 * 24),
+)
+
+// Lowered with the maximum, so uploads without a choice still pass under a small limit
+export const DEFAULT_LIFETIME_HOURS = Math.min(LEGACY_LIFETIME_HOURS, MAX_LIFETIME_HOURS)
+
+// Choices offered by the uploader, cut to the configured maximum
+export const LIFETIME_OPTIONS = [1, 6, 24, 3 * 24, 7 * 24, 30 * 24].filter((hours) => hours <= MAX_LIFETIME_HOURS)
+
+export function isValidLifetime(hours: unknown): hours is number {
+  return (
+    typeof hours === "number" &&
+    Number.isInteger(hours) &&
+    hours >= MIN_LIFETIME_HOURS &&
+    hours <= MAX_LIFETIME_HOURS
+  )
+}
+
+export const computeExpiresAt = (uploadedAt: string, lifetimeHours: number) =>
+  new Date(new Date(uploadedAt).getTime() + lifetimeHours * HOUR_MS).toISOString()
+
+export const getExpiresAt = (metadata: Pick<FileMetadata, "uploadedAt" | "expiresAt">) =>
+  metadata.expiresAt
+    ? new Date(metadata.expiresAt)
+    : new Date(new Date(metadata.uploadedAt).getTime() + LEGACY_LIFETIME_HOURS * HOUR_MS)
+
+export const isExpired = (metadata: Pick<FileMetadata, "uploadedAt" | "expiresAt">, now = Date.now()) =>
+  getExpiresAt(metadata).getTime() <= now
+
+// Whole hours left, rounded like the download page has always shown them
+export const getRemainingHours = (metadata: Pick<FileMetadata, "uploadedAt" | "expiresAt">, now = Date.now()) =>
+  Math.max(0, Math.round((getExpiresAt(metadata).getTime() - now) / HOUR_MS))
+
+export function formatLifetime(hours: number): string {
+  if (hours % 24 === 0) return `${hours / 24}日`
+  return `${hours}時間`
+}
@@ -0,0 +1,67 @@
+/*
+ * Collects the files of picked or dropped folders together with their path
+ * inside the folder, so the tree can be rebuilt on the download page.
+ */
+
+export interface SelectedFile {
+  file: File
+  // "folder/sub/name.ext" for files that came from a folder, unset for loose files
+  path?: string
+}
+
+// Input elements with webkitdirectory fill in webkitRelativePath, plain file inputs leave it empty
+export function filesFromInput(fileList: FileList): SelectedFile[] {
+  return Array.from(fileList, (file) => ({ file, path: file.webkitRelativePath || undefined }))
+}
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+
+// readEntries hands out directories in batches (100 in Chromium) and signals the end with an empty one
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader()
+  const entries: FileSystemEntry[] = []
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) return entries
+    entries.push(...batch)
+  }
+}
+
+async function walkEntry(entry: FileSystemEntry, parent: string | undefined, out: SelectedFile[]) {
+  const path = parent === undefined ? entry.name : `${parent}/${entry.name}`
+
+  if (entry.isFile) {
+    // Top-level files are dropped loose and keep no path
+    out.push({ file: await readFile(entry as FileSystemFileEntry), path: parent === undefined ? undefined : path })
+    return
+  }
+  if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await walkEntry(child, path, out)
+    }
+  }
+}
+
+/**
+ * Expands dropped folders recursively. Entries must be taken from the
+ * DataTransfer before the first await, as the browser clears it once the drop
+ * handler returns.
+ */
+export async function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<SelectedFile[]> {
+  const entries = Array.from(dataTransfer.items, (item) => (item.kind === "file" ? item.webkitGetAsEntry() : null))
+
+  // Browsers without the entries API only expose the flat file list
+  if (entries.length === 0 || entries.some((entry) => !entry)) {
+    return filesFromInput(dataTransfer.files)
+  }
+
+  const out: SelectedFile[] = []
+  for (const entry of entries as FileSystemEntry[]) {
+    await walkEntry(entry, undefined, out)
+  }
+  return out
+}
+
+// Name of the top-level folder a file came from
+export const rootFolderOf = (path: string) => path.split("/")[0]
@@ -0,0 +1,53 @@
+// Inclusive byte offsets, as in `Content-Range: bytes start-end/size`
+export interface ResolvedRange {
+  start: number
+  end: number
+}
+
+/**
+ * Resolves a `Range` header against a representation of `size` bytes.
+ * Returns null when the whole representation should be sent (no header, another unit,
+ * several ranges or a malformed value) and "unsatisfiable" when a 416 is due.
+ */
+export function parseRangeHeader(header: string | null, size: number): ResolvedRange | "unsatisfiable" | null {
+  if (!header) return null
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (!match[1] && !match[2])) return null
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const suffixLength = Number(match[2])
+    if (suffixLength === 0 || size === 0) return "unsatisfiable"
+    return { start: Math.max(0, size - suffixLength), end: size - 1 }
+  }
+
+  const start = Number(match[1])
+  const end = match[2] ? Number(match[2]) : size - 1
+  if (match[2] && end < start) return null
+  if (start >= size) return "unsatisfiable"
+
+  return { start, end: Math.min(end, size - 1) }
+}
+
+/**
+ * Passes through only bytes `start`..`end` (inclusive) of the piped stream and
+ * cancels the source once `end` is reached.
+ */
+export function sliceStream(start: number, end: number): TransformStream<Uint8Array, Uint8Array> {
+  let position = 0
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      const chunkStart = position
+      position += chunk.length
+
+      if (position > start && chunkStart <= end) {
+        controller.enqueue(chunk.subarray(Math.max(0, start - chunkStart), Math.min(chunk.length, end - chunkStart + 1)))
+      }
+      if (position > end) {
+        controller.terminate()
+      }
+    },
+  })
+}
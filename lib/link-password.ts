@@ -0,0 +1,65 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto"
+import type { FileMetadata } from "@/lib/metadata"
+import { createSignedToken, verifySignedToken } from "@/lib/signing"
+
+/*
+ * Password protected links. The uploader's password is kept as a salted scrypt
+ * hash in the metadata; whoever knows it exchanges it for an unlock token, which
+ * get-metadata and download-stream require before revealing anything.
+ */
+
+// Wrong guesses are throttled by lib/unlock-throttle, but a short password would still fall quickly
+export const MIN_PASSWORD_LENGTH = 8
+export const MAX_PASSWORD_LENGTH = 128
+
+// Long enough for a large download to start, short enough that a leaked token soon stops working
+export const UNLOCK_TOKEN_LIFETIME_MS = 15 * 60 * 1000
+
+// Header sent by the download page; direct links pass the token as ?token= instead
+export const UNLOCK_TOKEN_HEADER = "x-unlock-token"
+
+const SCRYPT_COST = 1 << 15
+const SCRYPT_BLOCK_SIZE = 8
+const KEY_LENGTH = 32
+
+export function isValidPassword(value: unknown): value is string {
+  return typeof value === "string" && value.length >= MIN_PASSWORD_LENGTH && value.length <= MAX_PASSWORD_LENGTH
+}
+
+const deriveKey = (password: string, salt: Buffer, cost: number, blockSize: number) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(
+      password.normalize("NFKC"),
+      salt,
+      KEY_LENGTH,
+      { N: cost, r: blockSize, p: 1, maxmem: 256 * cost * blockSize },
+      (error, key) => (error ? reject(error) : resolve(key)),
+    ),
+  )
+
+// Stored as scrypt$<N>$<r>$<salt>$<hash> so that the cost can be raised without breaking older files
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const key = await deriveKey(password, salt, SCRYPT_COST, SCRYPT_BLOCK_SIZE)
+  return ["scrypt", SCRYPT_COST, SCRYPT_BLOCK_SIZE, salt.toString("base64url"), key.toString("base64url")].join("$")
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [algorithm, cost, blockSize, salt, hash] = passwordHash.split("$")
+  if (algorithm !== "scrypt" || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, "base64url")
+  const key = await deriveKey(password, Buffer.from(salt, "base64url"), Number(cost), Number(blockSize))
+  return key.length === expected.length && timingSafeEqual(key, expected)
+}
+
+export const isPasswordProtected = (metadata: Pick<FileMetadata, "passwordHash">) => !!metadata.passwordHash
+
+export const createUnlockToken = (fileId: string) => createSignedToken(`unlock:${fileId}`, UNLOCK_TOKEN_LIFETIME_MS)
+
+export const unlockTokenFrom = (request: Request) =>
+  request.headers.get(UNLOCK_TOKEN_HEADER) ?? new URL(request.url).searchParams.get("token")
+
+// True when the file has no password or the token was issued for it and has not run out
+export const isUnlocked = (metadata: Pick<FileMetadata, "id" | "passwordHash">, token: string | null) =>
+  !isPasswordProtected(metadata) || verifySignedToken(`unlock:${metadata.id}`, token)
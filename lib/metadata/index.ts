@@ -0,0 +1,308 @@
+import { randomBytes } from "crypto"
+import { ObjectExistsError, type StorageDriver } from "@/lib/storage"
+import { COMPRESSION_CODECS, type CompressionCodec, DEFAULT_CODEC } from "@/lib/codecs"
+import { getExpiresAt } from "@/lib/expiry"
+import type { EncryptionParams } from "@/lib/encryption"
+
+// Offsets of independently compressed frames; frame i holds original bytes [i * frameSize, (i + 1) * frameSize)
+export interface CompressionFrames {
+  frameSize: number
+  // Compressed start of every frame followed by the total compressed size
+  offsets: number[]
+}
+
+export interface FileMetadata {
+  id: string
+  originalName: string
+  // Path inside an uploaded folder, including the folder and file name
+  relativePath?: string
+  size: number
+  originalSize: number
+  compressed: boolean
+  // Missing on files compressed before other codecs were offered, which are gzip
+  codec?: CompressionCodec
+  compressionRatio: number
+  // Only set for framed compression, which allows reading a range without inflating from the start
+  frames?: CompressionFrames
+  // Hex SHA-256 of the original file, computed by the uploader
+  sha256?: string
+  // Encrypted in the browser: the stored bytes are ciphertext and size counts them, originalSize the plaintext
+  encryption?: EncryptionParams
+  uploadedAt: string
+  // Chosen by the uploader; missing on files from before lifetimes were configurable
+  expiresAt?: string
+  // Deleted by the download that reaches this count; unset means unlimited
+  maxDownloads?: number
+  // scrypt hash of the link password, see lib/link-password; never sent to clients
+  passwordHash?: string
+  // Hash of the uploader's owner token, see lib/owner-token; never sent to clients
+  ownerTokenHash?: string
+  storageKey: string
+  // Public URL written by the Vercel Blob pipeline before storage keys existed; never sent to clients
+  blobUrl?: string
+  owner?: string
+}
+
+// Metadata as it may leave the server: without the storage location and the secret hashes
+export type PublicMetadata = Omit<FileMetadata, "storageKey" | "blobUrl" | "passwordHash" | "ownerTokenHash">
+
+export function toPublicMetadata(metadata: FileMetadata): PublicMetadata {
+  const {
+    storageKey: _storageKey,
+    blobUrl: _blobUrl,
+    passwordHash: _passwordHash,
+    ownerTokenHash: _ownerTokenHash,
+    ...rest
+  } = metadata
+  return rest
+}
+
+export interface ExpiryIndexEntry {
+  fileId: string
+  expiresAt: Date
+}
+
+export interface MetadataPage<T> {
+  items: T[]
+  cursor?: string
+  hasMore: boolean
+}
+
+export class MetadataCorruptedError extends Error {
+  constructor(fileId: string) {
+    super(`File metadata is corrupted: ${fileId}`)
+    this.name = "MetadataCorruptedError"
+  }
+}
+
+/*
+ * Keyed layout on top of the storage driver:
+ *   meta/<id>.json                     the record itself
+ *   index/expiry/<epoch ms>_<id>       one marker per file, sorted by expiry
+ *   index/owner/<owner>/<id>           one marker per file and owner
+ *   downloads/<id>/slot_<n>            one marker per download slot of a limited file, numbered
+ *                                      from 1, with a .done marker next to it once that download finished
+ * Markers hold no data, so listing a prefix is enough to answer a query.
+ */
+const RECORD_PREFIX = "meta/"
+const EXPIRY_INDEX_PREFIX = "index/expiry/"
+const OWNER_INDEX_PREFIX = "index/owner/"
+const DOWNLOADS_PREFIX = "downloads/"
+
+export const LEGACY_METADATA_PREFIX = "metadata_"
+
+// Server-issued ids keep the time-sortable shape of the ids the web uploader used to generate
+export const createFileId = () => Date.now().toString() + randomBytes(6).toString("hex")
+
+export const metadataKey = (fileId: string) => `${RECORD_PREFIX}${fileId}.json`
+
+export const legacyMetadataKey = (fileId: string) => `${LEGACY_METADATA_PREFIX}${fileId}.json`
+
+export const fileKey = (fileId: string, fileName: string, compressed: boolean, codec = DEFAULT_CODEC) =>
+  `files/${fileId}_${compressed ? fileName + COMPRESSION_CODECS[codec].extension : fileName}`
+
+// Encrypted files keep their name out of the key; only the metadata record holds it
+export const encryptedFileKey = (fileId: string) => `files/${fileId}`
+
+// Older metadata only carries the blob URL, which the Blob driver accepts as a key
+export const getStorageKey = (metadata: FileMetadata) => metadata.storageKey || metadata.blobUrl || ""
+
+const expiryIndexKey = (fileId: string, expiresAt: Date) =>
+  `${EXPIRY_INDEX_PREFIX}${expiresAt.getTime().toString().padStart(15, "0")}_${fileId}`
+
+const ownerIndexPrefix = (owner: string) => `${OWNER_INDEX_PREFIX}${encodeURIComponent(owner)}/`
+
+const downloadsPrefix = (fileId: string) => `${DOWNLOADS_PREFIX}${fileId}/`
+
+const indexKeys = (metadata: FileMetadata) => {
+  const keys = [expiryIndexKey(metadata.id, getExpiresAt(metadata))]
+  if (metadata.owner) {
+    keys.push(`${ownerIndexPrefix(metadata.owner)}${metadata.id}`)
+  }
+  return keys
+}
+
+async function readJson(storage: StorageDriver, key: string, fileId: string): Promise<FileMetadata | null> {
+  const object = await storage.get(key)
+  if (!object) return null
+
+  const text = await new Response(object.body).text()
+  try {
+    return JSON.parse(text) as FileMetadata
+  } catch {
+    throw new MetadataCorruptedError(fileId)
+  }
+}
+
+export async function writeMetadata(storage: StorageDriver, metadata: FileMetadata) {
+  // Drop index markers that no longer match the record, e.g. after an owner change
+  const previous = await readJson(storage, metadataKey(metadata.id), metadata.id).catch(() => null)
+  const nextIndexKeys = indexKeys(metadata)
+  const staleKeys = previous ? indexKeys(previous).filter((key) => !nextIndexKeys.includes(key)) : []
+
+  const stored = await storage.put(metadataKey(metadata.id), JSON.stringify(metadata), {
+    contentType: "application/json",
+  })
+
+  await Promise.all(nextIndexKeys.map((key) => storage.put(key, metadata.id, { contentType: "text/plain" })))
+  if (staleKeys.length > 0) {
+    await storage.delete(staleKeys)
+  }
+
+  return stored
+}
+
+export async function readMetadata(storage: StorageDriver, fileId: string): Promise<FileMetadata | null> {
+  // Ids end up in storage keys, so anything but the generated shape is unknown;
+  // files of the old blob upload route have an underscore in theirs
+  if (!/^[0-9a-z_]+$/i.test(fileId)) return null
+
+  const metadata = await readJson(storage, metadataKey(fileId), fileId)
+  if (metadata) return metadata
+
+  // Not migrated yet: import the legacy record on first access
+  const legacy = await readJson(storage, legacyMetadataKey(fileId), fileId)
+  if (!legacy) return null
+
+  await writeMetadata(storage, legacy)
+  await storage.delete(legacyMetadataKey(fileId))
+  return legacy
+}
+
+// Removes the stored file, its record and every index and download marker
+export async function deleteFile(storage: StorageDriver, metadata: FileMetadata) {
+  const storageKey = getStorageKey(metadata)
+  const downloadMarkers = metadata.maxDownloads ? await listDownloadMarkers(storage, metadata.id) : []
+  const keys = [metadataKey(metadata.id), legacyMetadataKey(metadata.id), ...indexKeys(metadata), ...downloadMarkers]
+  await storage.delete(storageKey ? [storageKey, ...keys] : keys)
+}
+
+async function listDownloadMarkers(storage: StorageDriver, fileId: string): Promise<string[]> {
+  const keys: string[] = []
+  let cursor: string | undefined
+  do {
+    const page = await storage.list(downloadsPrefix(fileId), { cursor })
+    keys.push(...page.objects.map((object) => object.key))
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+  return keys
+}
+
+const DOWNLOAD_DONE_SUFFIX = ".done"
+
+const downloadSlotKey = (fileId: string, slot: number) =>
+  `${downloadsPrefix(fileId)}slot_${slot.toString().padStart(3, "0")}`
+
+// Markers of downloads that finished before slots were numbered; each one stands for a used slot
+const isLegacyDownloadMarker = (key: string) => /\/\d{15}_[0-9a-f]{8}$/.test(key)
+
+const downloadSlots = (markers: string[]) => markers.filter((key) => !key.endsWith(DOWNLOAD_DONE_SUFFIX))
+
+// Downloads that were let through, finished or still running
+export const countDownloads = async (storage: StorageDriver, fileId: string) =>
+  downloadSlots(await listDownloadMarkers(storage, fileId)).length
+
+/**
+ * Takes one of the numbered download slots before any byte is sent, or returns
+ * null when all of them are taken. A slot is created only if it does not exist
+ * yet, so two concurrent downloads can never both hold the same one.
+ */
+export async function reserveDownload(storage: StorageDriver, fileId: string, limit: number): Promise<string | null> {
+  const markers = await listDownloadMarkers(storage, fileId)
+  const taken = new Set(markers)
+  const available = limit - markers.filter(isLegacyDownloadMarker).length
+
+  for (let slot = 1; slot <= available; slot++) {
+    const marker = downloadSlotKey(fileId, slot)
+    if (taken.has(marker)) continue
+    try {
+      await storage.put(marker, fileId, { contentType: "text/plain", ifNotExists: true })
+      return marker
+    } catch (error) {
+      // Another download took it in the meantime
+      if (!(error instanceof ObjectExistsError)) throw error
+    }
+  }
+  return null
+}
+
+// Gives the slot back, for a download that was rejected or cancelled
+export async function releaseDownload(storage: StorageDriver, marker: string) {
+  await storage.delete([marker])
+}
+
+// Marks the download of a slot as finished and returns how many have finished so far
+export async function recordDownload(storage: StorageDriver, fileId: string, marker: string): Promise<number> {
+  await storage.put(`${marker}${DOWNLOAD_DONE_SUFFIX}`, fileId, { contentType: "text/plain" })
+  const markers = await listDownloadMarkers(storage, fileId)
+  return markers.filter((key) => key.endsWith(DOWNLOAD_DONE_SUFFIX) || isLegacyDownloadMarker(key)).length
+}
+
+export async function listMetadata(
+  storage: StorageDriver,
+  options: { cursor?: string; limit?: number } = {},
+): Promise<MetadataPage<string>> {
+  const page = await storage.list(RECORD_PREFIX, options)
+
+  return {
+    items: page.objects
+      .filter((object) => object.key.endsWith(".json"))
+      .map((object) => object.key.slice(RECORD_PREFIX.length, -".json".length)),
+    cursor: page.cursor,
+    hasMore: page.hasMore,
+  }
+}
+
+// Records of the flat layout that have not been imported yet; readMetadata imports them on access
+export async function listLegacyMetadata(
+  storage: StorageDriver,
+  options: { cursor?: string; limit?: number } = {},
+): Promise<MetadataPage<string>> {
+  const page = await storage.list(LEGACY_METADATA_PREFIX, options)
+
+  return {
+    items: page.objects
+      .filter((object) => object.key.endsWith(".json"))
+      .map((object) => object.key.slice(LEGACY_METADATA_PREFIX.length, -".json".length)),
+    cursor: page.cursor,
+    hasMore: page.hasMore,
+  }
+}
+
+// Index entries come back in expiry order, so the scan stops at the first entry past `before`
+export async function listMetadataByExpiry(
+  storage: StorageDriver,
+  options: { before?: Date; cursor?: string; limit?: number } = {},
+): Promise<MetadataPage<ExpiryIndexEntry>> {
+  const page = await storage.list(EXPIRY_INDEX_PREFIX, { cursor: options.cursor, limit: options.limit })
+  const items: ExpiryIndexEntry[] = []
+
+  for (const object of page.objects) {
+    const match = object.key.slice(EXPIRY_INDEX_PREFIX.length).match(/^(\d+)_(.+)$/)
+    if (!match) continue
+
+    const expiresAt = new Date(Number(match[1]))
+    if (options.before && expiresAt.getTime() > options.before.getTime()) {
+      return { items, hasMore: false }
+    }
+
+    items.push({ fileId: match[2], expiresAt })
+  }
+
+  return { items, cursor: page.cursor, hasMore: page.hasMore }
+}
+
+export async function listMetadataByOwner(
+  storage: StorageDriver,
+  owner: string,
+  options: { cursor?: string; limit?: number } = {},
+): Promise<MetadataPage<string>> {
+  const prefix = ownerIndexPrefix(owner)
+  const page = await storage.list(prefix, options)
+
+  return {
+    items: page.objects.map((object) => object.key.slice(prefix.length)),
+    cursor: page.cursor,
+    hasMore: page.hasMore,
+  }
+}
@@ -0,0 +1,44 @@
+import type { StorageDriver } from "@/lib/storage"
+import { LEGACY_METADATA_PREFIX, readMetadata } from "./index"
+
+export interface MigrationResult {
+  importedCount: number
+  errorCount: number
+  failedKeys: string[]
+}
+
+/**
+ * Imports every legacy `metadata_<id>.json` object into the keyed layout.
+ * `readMetadata` already performs the import for a single id, so this walks all pages and calls it.
+ */
+export async function importLegacyMetadata(storage: StorageDriver): Promise<MigrationResult> {
+  let importedCount = 0
+  let errorCount = 0
+  const failedKeys: string[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await storage.list(LEGACY_METADATA_PREFIX, { cursor })
+
+    for (const object of page.objects) {
+      if (!object.key.endsWith(".json")) continue
+
+      const fileId = object.key.slice(LEGACY_METADATA_PREFIX.length, -".json".length)
+      try {
+        if (await readMetadata(storage, fileId)) {
+          importedCount++
+        }
+        // The record may have been imported earlier without the legacy copy being removed
+        await storage.delete(object.key)
+      } catch (error) {
+        console.error("Failed to import metadata:", object.key, error)
+        errorCount++
+        failedKeys.push(object.key)
+      }
+    }
+
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  return { importedCount, errorCount, failedKeys }
+}
@@ -0,0 +1,30 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto"
+import type { FileMetadata } from "@/lib/metadata"
+
+/*
+ * Management rights over an uploaded file. Completing an upload issues a random
+ * owner token that only the uploader ever sees; the metadata keeps its hash, and
+ * deleting, extending or editing the file requires the token itself.
+ */
+
+// Sent by the main page with every management request
+export const OWNER_TOKEN_HEADER = "x-owner-token"
+
+// The token is 32 random bytes, so a plain hash is enough where passwords need scrypt
+const hashOwnerToken = (token: string) => createHash("sha256").update(token).digest("base64url")
+
+export function createOwnerToken(): { token: string; hash: string } {
+  const token = randomBytes(32).toString("base64url")
+  return { token, hash: hashOwnerToken(token) }
+}
+
+export const ownerTokenFrom = (request: Request) => request.headers.get(OWNER_TOKEN_HEADER)
+
+// Files uploaded before owner tokens have no hash and cannot be managed by anyone
+export function isOwner(metadata: Pick<FileMetadata, "ownerTokenHash">, token: string | null): boolean {
+  if (!metadata.ownerTokenHash || !token) return false
+
+  const expected = Buffer.from(metadata.ownerTokenHash)
+  const actual = Buffer.from(hashOwnerToken(token))
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
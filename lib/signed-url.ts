@@ -0,0 +1,68 @@
+/*
+ * Signed download URLs. Every route that hands out file bytes sits behind
+ * middleware.ts, which only lets a request through when its path carries a valid,
+ * unexpired signature from signPath. Only Web Crypto is used here, because the
+ * middleware runs on the Edge runtime.
+ */
+
+// Long enough to finish or resume a large download, short enough that a leaked link soon stops working
+export const DOWNLOAD_URL_LIFETIME_MS = 60 * 60 * 1000
+
+const DEVELOPMENT_SECRET = "development-only-link-signing-secret"
+
+/**
+ * Secret behind every signature the server issues: LINK_SIGNING_SECRET, or the
+ * Blob token on deployments that have not set one. Development falls back to a
+ * fixed value; production refuses to sign without a secret.
+ */
+export function getSigningSecret(): string {
+  const secret = process.env.LINK_SIGNING_SECRET || process.env.BLOB_READ_WRITE_TOKEN
+  if (secret) return secret
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("LINK_SIGNING_SECRET is not configured")
+  }
+  return DEVELOPMENT_SECRET
+}
+
+let cachedKey: Promise<CryptoKey> | null = null
+
+const getKey = () =>
+  (cachedKey ??= crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(`signed-url:${getSigningSecret()}`),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  ))
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (c) => c.charCodeAt(0))
+
+// The pathname names the file (or collection), so a signature is only good for that one resource
+const signedValue = (pathname: string, expires: string) => new TextEncoder().encode(`${pathname}\n${expires}`)
+
+/**
+ * Appends expires and sig to `path`, which may already carry a query string.
+ * Only the pathname is signed; other parameters such as ?folder= stay free.
+ */
+export async function signPath(path: string, lifetimeMs = DOWNLOAD_URL_LIFETIME_MS): Promise<string> {
+  const pathname = path.split("?")[0]
+  const expires = (Date.now() + lifetimeMs).toString()
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", await getKey(), signedValue(pathname, expires)))
+  return `${path}${path.includes("?") ? "&" : "?"}expires=${expires}&sig=${toBase64Url(signature)}`
+}
+
+export async function verifySignedPath(url: URL, now = Date.now()): Promise<boolean> {
+  const expires = url.searchParams.get("expires")
+  const sig = url.searchParams.get("sig")
+  if (!expires || !/^\d+$/.test(expires) || Number(expires) <= now) return false
+  if (!sig || !/^[A-Za-z0-9_-]+$/.test(sig)) return false
+
+  return crypto.subtle.verify("HMAC", await getKey(), fromBase64Url(sig), signedValue(url.pathname, expires))
+}
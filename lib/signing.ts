@@ -0,0 +1,38 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto"
+import { getSigningSecret } from "@/lib/signed-url"
+
+/*
+ * HMAC signatures for short-lived tokens the server hands out and later accepts
+ * back. The secret is shared with the signed download URLs, under a key of its own.
+ */
+
+let cachedKey: Buffer | null = null
+
+function getSigningKey(): Buffer {
+  cachedKey ??= createHash("sha256").update(`link-signing:${getSigningSecret()}`).digest()
+  return cachedKey
+}
+
+export const sign = (value: string) => createHmac("sha256", getSigningKey()).update(value).digest("base64url")
+
+export function verifySignature(value: string, signature: string): boolean {
+  const expected = Buffer.from(sign(value))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * Token of the form `<expiry epoch ms>.<signature>`, bound to `scope` so that a
+ * token issued for one purpose or file is useless for another.
+ */
+export function createSignedToken(scope: string, lifetimeMs: number): { token: string; expiresAt: Date } {
+  const expiresAt = new Date(Date.now() + lifetimeMs)
+  const expiry = expiresAt.getTime().toString()
+  return { token: `${expiry}.${sign(`${scope}:${expiry}`)}`, expiresAt }
+}
+
+export function verifySignedToken(scope: string, token: string | null | undefined, now = Date.now()): boolean {
+  const match = token?.match(/^(\d+)\.([A-Za-z0-9_-]+)$/)
+  if (!match) return false
+  return Number(match[1]) > now && verifySignature(`${scope}:${match[1]}`, match[2])
+}
@@ -0,0 +1,39 @@
+import type { StorageDriver } from "./types"
+
+/**
+ * Streams the given objects back to back as one body, opening each object only
+ * after the previous one is exhausted so memory stays at one read buffer.
+ */
+export function concatObjects(storage: StorageDriver, keys: string[]): ReadableStream<Uint8Array> {
+  let index = 0
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (index < keys.length) {
+        if (!reader) {
+          const stored = await storage.get(keys[index])
+          if (!stored) {
+            throw new Error(`Object not found: ${keys[index]}`)
+          }
+          reader = stored.body.getReader()
+        }
+
+        const { done, value } = await reader.read()
+        if (!done) {
+          controller.enqueue(value)
+          return
+        }
+
+        reader = null
+        index++
+      }
+
+      controller.close()
+    },
+
+    async cancel(reason) {
+      await reader?.cancel(reason)
+    },
+  })
+}
@@ -0,0 +1,38 @@
+import path from "path"
+import { createLocalDriver } from "./local"
+import { createVercelBlobDriver } from "./vercel-blob"
+import type { StorageDriver } from "./types"
+
+export type * from "./types"
+export { MULTIPART_MIN_PART_SIZE, ObjectExistsError } from "./types"
+export { concatObjects } from "./concat"
+
+let cachedDriver: StorageDriver | null = null
+
+/**
+ * Returns the storage driver selected by `STORAGE_DRIVER` ("local" or "vercel-blob").
+ * Without an explicit setting, Vercel Blob is used when `BLOB_READ_WRITE_TOKEN` is present
+ * and the local filesystem (`LOCAL_STORAGE_DIR`, default `./uploads`) otherwise.
+ */
+export function getStorage(): StorageDriver {
+  if (cachedDriver) return cachedDriver
+
+  const token = process.env.BLOB_READ_WRITE_TOKEN
+  const driverName = process.env.STORAGE_DRIVER || (token ? "vercel-blob" : "local")
+
+  switch (driverName) {
+    case "vercel-blob":
+      if (!token) {
+        throw new Error("BLOB_READ_WRITE_TOKEN is not configured")
+      }
+      cachedDriver = createVercelBlobDriver(token)
+      break
+    case "local":
+      cachedDriver = createLocalDriver(process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), "uploads"))
+      break
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driverName}`)
+  }
+
+  return cachedDriver
+}
@@ -0,0 +1,226 @@
+import { randomUUID } from "crypto"
+import { createReadStream, createWriteStream } from "fs"
+import { link, mkdir, readdir, rename, rm, stat } from "fs/promises"
+import path from "path"
+import { Readable } from "stream"
+import { pipeline } from "stream/promises"
+import type { ReadableStream as NodeReadableStream } from "stream/web"
+import {
+  type ByteRange,
+  type MultipartUpload,
+  type StorageBody,
+  type StorageDriver,
+  type StorageListOptions,
+  type StoredObject,
+  ObjectExistsError,
+} from "./types"
+
+const DEFAULT_LIST_LIMIT = 1000
+
+// Parts of unfinished multipart uploads live here, outside the key space
+const MULTIPART_DIR = ".multipart"
+
+// Unique per write, so concurrent writes of one key never share a sibling file; the last rename wins
+const partialPathFor = (filePath: string) => `${filePath}.${randomUUID()}.partial`
+
+function toReadable(body: StorageBody): Readable {
+  if (typeof body === "string") return Readable.from([Buffer.from(body)])
+  if (body instanceof Uint8Array) return Readable.from([Buffer.from(body.buffer, body.byteOffset, body.byteLength)])
+  if (body instanceof ArrayBuffer) return Readable.from([Buffer.from(body)])
+  if (body instanceof Blob) return Readable.fromWeb(body.stream() as NodeReadableStream<Uint8Array>)
+  return Readable.fromWeb(body as NodeReadableStream<Uint8Array>)
+}
+
+async function walk(dir: string): Promise<string[]> {
+  let entries
+  try {
+    entries = await readdir(dir, { withFileTypes: true })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw error
+  }
+
+  const files: string[] = []
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name)
+    if (entry.name === MULTIPART_DIR) continue
+    if (entry.isDirectory()) {
+      files.push(...(await walk(entryPath)))
+    } else if (entry.isFile() && !entry.name.endsWith(".partial")) {
+      files.push(entryPath)
+    }
+  }
+  return files
+}
+
+export function createLocalDriver(rootDir: string): StorageDriver {
+  const root = path.resolve(rootDir)
+
+  // Keys are relative paths below the root; anything escaping it is rejected
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key)
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return filePath
+  }
+
+  const partsDir = (upload: MultipartUpload) => {
+    if (!/^[0-9a-f-]{36}$/.test(upload.uploadId)) {
+      throw new Error(`Invalid multipart upload id for ${upload.key}`)
+    }
+    return path.join(root, MULTIPART_DIR, upload.uploadId)
+  }
+
+  const partPath = (upload: MultipartUpload, partNumber: number) =>
+    path.join(partsDir(upload), partNumber.toString().padStart(5, "0"))
+
+  const toKey = (filePath: string) => path.relative(root, filePath).split(path.sep).join("/")
+
+  const head = async (key: string): Promise<StoredObject | null> => {
+    try {
+      const stats = await stat(resolveKey(key))
+      if (!stats.isFile()) return null
+      return { key, size: stats.size, uploadedAt: stats.mtime }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+      throw error
+    }
+  }
+
+  return {
+    name: "local",
+
+    async put(key, body, options = {}) {
+      const filePath = resolveKey(key)
+      await mkdir(path.dirname(filePath), { recursive: true })
+
+      // Write to a sibling file first so readers never see a half written object
+      const partialPath = partialPathFor(filePath)
+      try {
+        await pipeline(toReadable(body), createWriteStream(partialPath))
+      } catch (error) {
+        await rm(partialPath, { force: true })
+        throw error
+      }
+      if (options.ifNotExists) {
+        // link fails when the target exists, where rename would replace it
+        try {
+          await link(partialPath, filePath)
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === "EEXIST") throw new ObjectExistsError(key)
+          throw error
+        } finally {
+          await rm(partialPath, { force: true })
+        }
+      } else {
+        await rename(partialPath, filePath)
+      }
+
+      const stats = await stat(filePath)
+      return { key, size: stats.size, uploadedAt: stats.mtime }
+    },
+
+    async get(key, range?: ByteRange) {
+      const object = await head(key)
+      if (!object) return null
+
+      const start = range ? range.start : 0
+      const end = range ? Math.min(range.end ?? object.size - 1, object.size - 1) : object.size - 1
+      const stream = createReadStream(resolveKey(key), object.size > 0 ? { start, end } : undefined)
+
+      return {
+        body: Readable.toWeb(stream) as ReadableStream<Uint8Array>,
+        size: object.size,
+        range: range ? { start, end } : undefined,
+      }
+    },
+
+    head,
+
+    async delete(keys) {
+      const list = Array.isArray(keys) ? keys : [keys]
+      await Promise.all(list.map((key) => rm(resolveKey(key), { force: true })))
+    },
+
+    async list(prefix, options: StorageListOptions = {}) {
+      const limit = options.limit ?? DEFAULT_LIST_LIMIT
+
+      // Only walk the directory that can contain the prefix
+      const prefixDir = prefix.includes("/") ? prefix.slice(0, prefix.lastIndexOf("/")) : ""
+      const keys = (await walk(resolveKey(prefixDir)))
+        .map(toKey)
+        .filter((key) => key.startsWith(prefix) && (!options.cursor || key > options.cursor))
+        .sort()
+
+      const page = keys.slice(0, limit)
+      const objects: StoredObject[] = []
+      for (const key of page) {
+        const object = await head(key)
+        if (object) objects.push(object)
+      }
+
+      const hasMore = keys.length > limit
+      return {
+        objects,
+        cursor: hasMore ? page[page.length - 1] : undefined,
+        hasMore,
+      }
+    },
+
+    async createMultipartUpload(key) {
+      resolveKey(key)
+      const upload = { key, uploadId: randomUUID() }
+      await mkdir(partsDir(upload), { recursive: true })
+      return upload
+    },
+
+    async uploadPart(upload, partNumber, body) {
+      if (!Number.isInteger(partNumber) || partNumber < 1) {
+        throw new Error(`Invalid part number: ${partNumber}`)
+      }
+
+      const filePath = partPath(upload, partNumber)
+      const partialPath = partialPathFor(filePath)
+      await pipeline(toReadable(body), createWriteStream(partialPath))
+      await rename(partialPath, filePath)
+
+      const stats = await stat(filePath)
+      return { partNumber, etag: `${stats.size}-${stats.mtimeMs}` }
+    },
+
+    async completeMultipartUpload(upload, parts) {
+      const filePath = resolveKey(upload.key)
+      await mkdir(path.dirname(filePath), { recursive: true })
+
+      // Append the parts in order to a sibling file, like put does
+      const partialPath = partialPathFor(filePath)
+      const output = createWriteStream(partialPath)
+      try {
+        for (const part of [...parts].sort((a, b) => a.partNumber - b.partNumber)) {
+          const source = partPath(upload, part.partNumber)
+          const stats = await stat(source)
+          if (`${stats.size}-${stats.mtimeMs}` !== part.etag) {
+            throw new Error(`Part ${part.partNumber} does not match its etag`)
+          }
+          await pipeline(createReadStream(source), output, { end: false })
+        }
+      } catch (error) {
+        output.destroy()
+        await rm(partialPath, { force: true })
+        throw error
+      }
+
+      await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => (error ? reject(error) : resolve())))
+      await rename(partialPath, filePath)
+      await rm(partsDir(upload), { recursive: true, force: true })
+
+      const stats = await stat(filePath)
+      return { key: upload.key, size: stats.size, uploadedAt: stats.mtime }
+    },
+
+    async abortMultipartUpload(upload) {
+      await rm(partsDir(upload), { recursive: true, force: true })
+    },
+  }
+}
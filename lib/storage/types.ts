@@ -0,0 +1,81 @@
+// Minimum size of every multipart part but the last (Vercel Blob limit)
+export const MULTIPART_MIN_PART_SIZE = 5 * 1024 * 1024
+
+export type StorageBody = string | Uint8Array | ArrayBuffer | Blob | ReadableStream<Uint8Array>
+
+export interface StoredObject {
+  key: string
+  size: number
+  uploadedAt: Date
+  contentType?: string
+  // Public URL of the object, only for backends that expose one
+  url?: string
+}
+
+// Inclusive byte range, same semantics as the HTTP Range header
+export interface ByteRange {
+  start: number
+  end?: number
+}
+
+export interface StorageGetResult {
+  body: ReadableStream<Uint8Array>
+  // Total size of the stored object, not of the returned range
+  size: number
+  range?: { start: number; end: number }
+  contentType?: string
+}
+
+export interface StoragePutOptions {
+  contentType?: string
+  // Leaves an existing object in place and throws ObjectExistsError; the check and the write are one step
+  ifNotExists?: boolean
+}
+
+export class ObjectExistsError extends Error {
+  constructor(key: string) {
+    super(`Object already exists: ${key}`)
+    this.name = "ObjectExistsError"
+  }
+}
+
+export interface StorageListOptions {
+  cursor?: string
+  limit?: number
+}
+
+export interface StorageListResult {
+  objects: StoredObject[]
+  cursor?: string
+  hasMore: boolean
+}
+
+// Handle returned by createMultipartUpload; callers pass it back unchanged
+export interface MultipartUpload {
+  key: string
+  uploadId: string
+}
+
+export interface UploadedPart {
+  partNumber: number
+  etag: string
+}
+
+/**
+ * Backend-agnostic object storage used by every API route.
+ * Keys are slash separated paths such as `files/<id>_<name>` or `metadata_<id>.json`.
+ */
+export interface StorageDriver {
+  readonly name: "local" | "vercel-blob"
+  put(key: string, body: StorageBody, options?: StoragePutOptions): Promise<StoredObject>
+  get(key: string, range?: ByteRange): Promise<StorageGetResult | null>
+  head(key: string): Promise<StoredObject | null>
+  delete(keys: string | string[]): Promise<void>
+  list(prefix: string, options?: StorageListOptions): Promise<StorageListResult>
+  // Parts are numbered from 1 and every part except the last must be at least MULTIPART_MIN_PART_SIZE bytes
+  createMultipartUpload(key: string, options?: StoragePutOptions): Promise<MultipartUpload>
+  uploadPart(upload: MultipartUpload, partNumber: number, body: StorageBody): Promise<UploadedPart>
+  completeMultipartUpload(upload: MultipartUpload, parts: UploadedPart[]): Promise<StoredObject>
+  // Discards the parts of an upload that will never be completed
+  abortMultipartUpload(upload: MultipartUpload): Promise<void>
+}
@@ -0,0 +1,232 @@
+import {
+  BlobNotFoundError,
+  completeMultipartUpload,
+  createMultipartUpload,
+  del,
+  get as getBlob,
+  head as headBlob,
+  list as listBlobs,
+  put,
+  uploadPart,
+} from "@vercel/blob"
+import {
+  type ByteRange,
+  type MultipartUpload,
+  type StorageBody,
+  type StorageDriver,
+  type StoredObject,
+  ObjectExistsError,
+} from "./types"
+
+const MAX_RETRIES = 3
+
+// Objects are only read through this driver, with the token; their URLs serve nothing on their own
+const ACCESS = "private"
+
+// Objects stored before everything became private still live on the public host until they expire
+const accessOf = (url: string) => (new URL(url).hostname.includes(".private.") ? "private" : "public")
+
+async function withRetry<T>(label: string, operation: () => Promise<T>): Promise<T> {
+  let retryCount = 0
+
+  while (true) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) throw error
+
+      retryCount++
+      console.error(`${label} attempt ${retryCount} failed:`, error)
+
+      if (retryCount >= MAX_RETRIES) {
+        throw new Error(`${label} failed after ${MAX_RETRIES} attempts`)
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 1000 * retryCount))
+    }
+  }
+}
+
+// The Blob SDK does not accept plain typed arrays
+function toPutBody(body: StorageBody) {
+  if (body instanceof Uint8Array) return Buffer.from(body.buffer, body.byteOffset, body.byteLength)
+  return body
+}
+
+function bodySize(body: StorageBody): number | undefined {
+  if (typeof body === "string") return Buffer.byteLength(body)
+  if (body instanceof Uint8Array || body instanceof ArrayBuffer) return body.byteLength
+  if (body instanceof Blob) return body.size
+  return undefined
+}
+
+// Blob multipart calls need both the upload id and the internal object key, packed into one opaque id
+function encodeUploadId(blobKey: string, uploadId: string) {
+  return Buffer.from(JSON.stringify({ key: blobKey, uploadId })).toString("base64url")
+}
+
+function decodeUploadId(upload: MultipartUpload): { key: string; uploadId: string } {
+  try {
+    const decoded = JSON.parse(Buffer.from(upload.uploadId, "base64url").toString())
+    if (typeof decoded.key === "string" && typeof decoded.uploadId === "string") return decoded
+  } catch {
+    // fall through
+  }
+  throw new Error(`Invalid multipart upload id for ${upload.key}`)
+}
+
+export function createVercelBlobDriver(token: string): StorageDriver {
+  const head = async (key: string): Promise<StoredObject | null> => {
+    try {
+      const blob = await withRetry("Blob head", () => headBlob(key, { token }))
+      return {
+        key: blob.pathname,
+        size: blob.size,
+        uploadedAt: blob.uploadedAt,
+        contentType: blob.contentType,
+        url: blob.url,
+      }
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) return null
+      throw error
+    }
+  }
+
+  return {
+    name: "vercel-blob",
+
+    async put(key, body, options = {}) {
+      const blob = await put(key, toPutBody(body), {
+        access: ACCESS,
+        token,
+        addRandomSuffix: false,
+        allowOverwrite: !options.ifNotExists,
+        multipart: body instanceof Blob || body instanceof ReadableStream,
+        contentType: options.contentType,
+      }).catch(async (error) => {
+        // The service refuses the write when the object exists; any other failure is passed on
+        if (options.ifNotExists && (await head(key))) throw new ObjectExistsError(key)
+        throw error
+      })
+
+      return {
+        key: blob.pathname,
+        size: bodySize(body) ?? (await head(key))?.size ?? 0,
+        uploadedAt: new Date(),
+        contentType: blob.contentType,
+        url: blob.url,
+      }
+    },
+
+    async get(key, range?: ByteRange) {
+      const object = await head(key)
+      if (!object?.url) return null
+
+      const headers: HeadersInit = {}
+      if (range) {
+        headers.Range = `bytes=${range.start}-${range.end ?? ""}`
+      }
+
+      // The SDK sends the token, which private objects need
+      const response = await withRetry("Blob fetch", () =>
+        getBlob(object.url!, { access: accessOf(object.url!), token, headers, useCache: false }),
+      )
+
+      if (!response?.stream) return null
+
+      let resolvedRange: { start: number; end: number } | undefined
+      const contentRange = response.headers.get("content-range")
+      const match = contentRange?.match(/bytes (\d+)-(\d+)\/(\d+|\*)/)
+      if (match) {
+        resolvedRange = { start: Number(match[1]), end: Number(match[2]) }
+      } else if (range) {
+        // The CDN ignored the Range header; the full body is returned
+        resolvedRange = { start: 0, end: object.size - 1 }
+      }
+
+      return {
+        body: response.stream,
+        size: object.size,
+        range: resolvedRange,
+        contentType: object.contentType,
+      }
+    },
+
+    head,
+
+    async delete(keys) {
+      await withRetry("Blob delete", () => del(keys, { token }))
+    },
+
+    async list(prefix, options = {}) {
+      const result = await withRetry("Blob list", () =>
+        listBlobs({ token, prefix, cursor: options.cursor, limit: options.limit }),
+      )
+
+      return {
+        objects: result.blobs.map((blob) => ({
+          key: blob.pathname,
+          size: blob.size,
+          uploadedAt: blob.uploadedAt,
+          url: blob.url,
+        })),
+        cursor: result.cursor,
+        hasMore: result.hasMore,
+      }
+    },
+
+    async createMultipartUpload(key, options = {}) {
+      const created = await withRetry("Blob multipart create", () =>
+        createMultipartUpload(key, {
+          access: ACCESS,
+          token,
+          addRandomSuffix: false,
+          allowOverwrite: true,
+          contentType: options.contentType,
+        }),
+      )
+
+      return { key, uploadId: encodeUploadId(created.key, created.uploadId) }
+    },
+
+    async uploadPart(upload, partNumber, body) {
+      const { key, uploadId } = decodeUploadId(upload)
+      // Streams can only be read once, so they are not retried here
+      const part = await uploadPart(upload.key, toPutBody(body), {
+        access: ACCESS,
+        token,
+        key,
+        uploadId,
+        partNumber,
+      })
+
+      return { partNumber: part.partNumber, etag: part.etag }
+    },
+
+    async completeMultipartUpload(upload, parts) {
+      const { key, uploadId } = decodeUploadId(upload)
+      const sortedParts = [...parts].sort((a, b) => a.partNumber - b.partNumber)
+      const blob = await withRetry("Blob multipart complete", () =>
+        completeMultipartUpload(upload.key, sortedParts, {
+          access: ACCESS,
+          token,
+          key,
+          uploadId,
+          addRandomSuffix: false,
+          allowOverwrite: true,
+        }),
+      )
+
+      return {
+        key: blob.pathname,
+        size: (await head(blob.pathname))?.size ?? 0,
+        uploadedAt: new Date(),
+        contentType: blob.contentType,
+        url: blob.url,
+      }
+    },
+
+    // The Blob SDK has no call to abort a multipart upload; the service discards parts that are never completed
+    async abortMultipartUpload() {},
+  }
+}
@@ -0,0 +1,255 @@
+import { createHash, randomBytes } from "crypto"
+import { concatObjects, type StorageDriver } from "@/lib/storage"
+import { type FileMetadata, fileKey, writeMetadata } from "@/lib/metadata"
+import { DEFAULT_LIFETIME_HOURS, computeExpiresAt } from "@/lib/expiry"
+
+export const TUS_VERSION = "1.0.0"
+export const TUS_EXTENSIONS = "creation,termination,checksum"
+export const TUS_CHECKSUM_ALGORITHMS = ["sha1", "sha256", "md5"]
+
+export interface TusUpload {
+  id: string
+  length: number
+  offset: number
+  // Raw Upload-Metadata header, echoed back on HEAD; the file name only to the owner
+  metadata: string
+  fileName: string
+  // From the `lifetime` Upload-Metadata key, in hours
+  lifetimeHours?: number
+  // Names of the stored PATCH bodies, in order; uploads from before segments had unique names list start offsets
+  segments: Array<string | number>
+  createdAt: string
+  completedAt?: string
+  // Swept by cleanup afterwards, finished or not; older uploads expire TUS_UPLOAD_LIFETIME_MS after createdAt
+  expiresAt?: string
+}
+
+// Long enough to resume an interrupted upload the next day
+export const TUS_UPLOAD_LIFETIME_MS = 24 * 60 * 60 * 1000
+
+/*
+ * Every PATCH body is streamed into its own object under tus/<id>/ and the
+ * segments are streamed into the final file once the upload is complete. A
+ * segment is named by its start offset plus a random part, so two PATCHes for
+ * the same offset never write to the same object; only one of them is recorded.
+ */
+const uploadKey = (id: string) => `tus/${id}.json`
+const segmentsPrefix = (id: string) => `tus/${id}/`
+const segmentKey = (id: string, segment: string | number) =>
+  `${segmentsPrefix(id)}${typeof segment === "number" ? segment.toString().padStart(15, "0") : segment}`
+
+const newSegmentName = (offset: number) => `${offset.toString().padStart(15, "0")}_${randomBytes(4).toString("hex")}`
+
+// Returns the common headers every tus response carries
+export function tusHeaders(extra: Record<string, string> = {}): Headers {
+  const headers = new Headers(extra)
+  headers.set("Tus-Resumable", TUS_VERSION)
+  headers.set("Cache-Control", "no-store")
+  return headers
+}
+
+// Parses `key base64value,key2 base64value2` into plain strings
+export function parseUploadMetadata(header: string | null): Record<string, string> {
+  const result: Record<string, string> = {}
+  if (!header) return result
+
+  for (const pair of header.split(",")) {
+    const [key, value] = pair.trim().split(" ")
+    if (!key) continue
+    result[key] = value ? Buffer.from(value, "base64").toString("utf8") : ""
+  }
+  return result
+}
+
+// Keys of Upload-Metadata that carry the file name
+const FILE_NAME_KEYS = ["filename", "name"]
+
+// The Upload-Metadata header without the file name, for callers that have not shown they own the upload
+export const withoutFileName = (header: string) =>
+  header
+    .split(",")
+    .filter((pair) => !FILE_NAME_KEYS.includes(pair.trim().split(" ")[0]))
+    .join(",")
+
+export interface TusChecksum {
+  algorithm: string
+  // base64 digest
+  expected: string
+}
+
+// Parses the Upload-Checksum header; null for an unsupported algorithm
+export function parseChecksum(header: string): TusChecksum | null {
+  const [algorithm, expected] = header.trim().split(" ")
+  if (!TUS_CHECKSUM_ALGORITHMS.includes(algorithm) || !expected) return null
+  return { algorithm, expected }
+}
+
+export async function readTusUpload(storage: StorageDriver, id: string): Promise<TusUpload | null> {
+  // Ids end up in storage keys, so anything but the generated shape is unknown
+  if (!/^[0-9a-z]+$/i.test(id)) return null
+
+  const stored = await storage.get(uploadKey(id))
+  if (!stored) return null
+  return JSON.parse(await new Response(stored.body).text()) as TusUpload
+}
+
+export async function writeTusUpload(storage: StorageDriver, upload: TusUpload) {
+  await storage.put(uploadKey(upload.id), JSON.stringify(upload), { contentType: "application/json" })
+}
+
+export type AppendResult = "appended" | "too-large" | "checksum-mismatch" | "offset-conflict"
+
+/**
+ * Streams a PATCH body into a new segment without holding it in memory, and
+ * stops as soon as it would run past Upload-Length. The upload record is read
+ * again before the segment is recorded, so a concurrent PATCH that got there
+ * first turns this one into an offset conflict. `upload` is updated on success.
+ */
+export async function appendTusSegment(
+  storage: StorageDriver,
+  upload: TusUpload,
+  body: ReadableStream<Uint8Array>,
+  checksum?: TusChecksum,
+): Promise<AppendResult> {
+  const startOffset = upload.offset
+  const remaining = upload.length - startOffset
+  const hash = checksum ? createHash(checksum.algorithm) : null
+  let received = 0
+  let tooLarge = false
+
+  const limited = body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength
+        if (received > remaining) {
+          tooLarge = true
+          throw new Error("Upload exceeds Upload-Length")
+        }
+        hash?.update(chunk)
+        controller.enqueue(chunk)
+      },
+    }),
+  )
+
+  const name = newSegmentName(startOffset)
+  const discard = () => storage.delete(segmentKey(upload.id, name)).catch(() => undefined)
+
+  try {
+    await storage.put(segmentKey(upload.id, name), limited)
+  } catch (error) {
+    await discard()
+    if (tooLarge) return "too-large"
+    throw error
+  }
+
+  if (hash && hash.digest("base64") !== checksum?.expected) {
+    await discard()
+    return "checksum-mismatch"
+  }
+
+  if (received === 0) {
+    await discard()
+    return "appended"
+  }
+
+  const current = await readTusUpload(storage, upload.id)
+  if (!current || current.offset !== startOffset || current.completedAt) {
+    await discard()
+    return "offset-conflict"
+  }
+
+  current.segments.push(name)
+  current.offset += received
+  await writeTusUpload(storage, current)
+
+  // Two PATCHes can still pass the check together; only the one whose record survived has appended
+  const written = await readTusUpload(storage, upload.id)
+  if (written?.segments[written.segments.length - 1] !== name) {
+    await discard()
+    return "offset-conflict"
+  }
+
+  Object.assign(upload, written)
+  return "appended"
+}
+
+// Removes every stored segment, including ones left behind by PATCHes that lost a race
+async function deleteSegments(storage: StorageDriver, upload: TusUpload) {
+  const keys: string[] = []
+  let cursor: string | undefined
+  do {
+    const page = await storage.list(segmentsPrefix(upload.id), { cursor })
+    keys.push(...page.objects.map((object) => object.key))
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  if (keys.length > 0) {
+    await storage.delete(keys)
+  }
+}
+
+// Streams all segments into the final file and registers it like a web upload
+export async function completeTusUpload(
+  storage: StorageDriver,
+  upload: TusUpload,
+  ownerTokenHash: string,
+): Promise<FileMetadata> {
+  const segmentKeys = upload.segments.map((segment) => segmentKey(upload.id, segment))
+  const finalObject = await storage.put(fileKey(upload.id, upload.fileName, false), concatObjects(storage, segmentKeys))
+
+  const uploadedAt = new Date().toISOString()
+  const metadata: FileMetadata = {
+    id: upload.id,
+    originalName: upload.fileName,
+    size: finalObject.size,
+    originalSize: finalObject.size,
+    compressed: false,
+    compressionRatio: 0,
+    uploadedAt,
+    expiresAt: computeExpiresAt(uploadedAt, upload.lifetimeHours ?? DEFAULT_LIFETIME_HOURS),
+    ownerTokenHash,
+    storageKey: finalObject.key,
+  }
+  await writeMetadata(storage, metadata)
+
+  upload.completedAt = metadata.uploadedAt
+  upload.segments = []
+  await writeTusUpload(storage, upload)
+
+  try {
+    await deleteSegments(storage, upload)
+  } catch (error) {
+    console.log("Could not delete tus segments:", error)
+  }
+
+  return metadata
+}
+
+export async function terminateTusUpload(storage: StorageDriver, upload: TusUpload) {
+  await deleteSegments(storage, upload)
+  await storage.delete(uploadKey(upload.id))
+}
+
+// Terminates every upload past its expiry, finished or not
+export async function deleteExpiredTusUploads(storage: StorageDriver, before: Date): Promise<number> {
+  const ids: string[] = []
+  let cursor: string | undefined
+  do {
+    const page = await storage.list("tus/", { cursor })
+    ids.push(...page.objects.flatMap((object) => object.key.match(/^tus\/([0-9a-z]+)\.json$/i)?.[1] ?? []))
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  let deleted = 0
+  for (const id of ids) {
+    const upload = await readTusUpload(storage, id)
+    if (!upload) continue
+
+    const expiresAt = new Date(upload.expiresAt ?? new Date(upload.createdAt).getTime() + TUS_UPLOAD_LIFETIME_MS)
+    if (expiresAt.getTime() > before.getTime()) continue
+
+    await terminateTusUpload(storage, upload)
+    deleted++
+  }
+  return deleted
+}
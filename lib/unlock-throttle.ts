@@ -0,0 +1,112 @@
+import { createHash, randomBytes } from "crypto"
+import type { StorageDriver } from "@/lib/storage"
+
+/*
+ * Limits wrong link passwords, per file and per client address, and wrong admin
+ * sign-ins per client address, so that a password cannot be guessed by trying
+ * many. Every failure adds its own marker instead of rewriting a counter, so the
+ * count holds across serverless instances:
+ *
+ *   unlock-attempts/file/<file id>/<epoch ms>_<rand>
+ *   unlock-attempts/ip/<hashed address>/<epoch ms>_<rand>
+ *   unlock-attempts/admin/<hashed address>/<epoch ms>_<rand>
+ */
+
+const ATTEMPTS_PREFIX = "unlock-attempts/"
+
+// Failures older than this no longer count
+export const UNLOCK_ATTEMPT_WINDOW_MS = 15 * 60 * 1000
+export const MAX_FAILED_UNLOCKS_PER_FILE = 10
+export const MAX_FAILED_UNLOCKS_PER_IP = 20
+export const MAX_FAILED_ADMIN_SIGN_INS_PER_IP = 10
+
+// Addresses only appear hashed in storage keys
+const hashAddress = (address: string) => createHash("sha256").update(address).digest("base64url")
+
+const attemptPrefixes = (fileId: string, address: string) => ({
+  file: `${ATTEMPTS_PREFIX}file/${fileId}/`,
+  ip: `${ATTEMPTS_PREFIX}ip/${hashAddress(address)}/`,
+})
+
+const adminAttemptPrefix = (address: string) => `${ATTEMPTS_PREFIX}admin/${hashAddress(address)}/`
+
+const attemptName = () => `${Date.now().toString().padStart(15, "0")}_${randomBytes(4).toString("hex")}`
+
+// Vercel and most proxies put the client first in X-Forwarded-For
+export const clientAddressOf = (request: Request) =>
+  request.headers.get("x-forwarded-for")?.split(",")[0].trim() || request.headers.get("x-real-ip") || "unknown"
+
+const attemptTime = (key: string) => Number(key.slice(key.lastIndexOf("/") + 1).split("_")[0])
+
+// Times of the failures that still count, oldest first
+async function recentFailures(storage: StorageDriver, prefix: string, now: number): Promise<number[]> {
+  const times: number[] = []
+  let cursor: string | undefined
+  do {
+    const page = await storage.list(prefix, { cursor })
+    times.push(...page.objects.map((object) => attemptTime(object.key)))
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+  return times.filter((time) => time > now - UNLOCK_ATTEMPT_WINDOW_MS).sort((a, b) => a - b)
+}
+
+// Until enough of the oldest failures have left the window to get below the limit
+const waitFor = (failures: number[], limit: number, now: number) =>
+  failures.length < limit ? 0 : failures[failures.length - limit] + UNLOCK_ATTEMPT_WINDOW_MS - now
+
+/**
+ * Returns how many milliseconds the client has to wait before trying again, or
+ * 0 when it may try now.
+ */
+export async function unlockRetryAfter(storage: StorageDriver, fileId: string, address: string): Promise<number> {
+  const now = Date.now()
+  const prefixes = attemptPrefixes(fileId, address)
+  const [fileFailures, ipFailures] = await Promise.all([
+    recentFailures(storage, prefixes.file, now),
+    recentFailures(storage, prefixes.ip, now),
+  ])
+  return Math.max(
+    waitFor(fileFailures, MAX_FAILED_UNLOCKS_PER_FILE, now),
+    waitFor(ipFailures, MAX_FAILED_UNLOCKS_PER_IP, now),
+  )
+}
+
+export async function recordFailedUnlock(storage: StorageDriver, fileId: string, address: string) {
+  const name = attemptName()
+  const prefixes = attemptPrefixes(fileId, address)
+  await Promise.all([
+    storage.put(`${prefixes.file}${name}`, "", { contentType: "text/plain" }),
+    storage.put(`${prefixes.ip}${name}`, "", { contentType: "text/plain" }),
+  ])
+}
+
+// Same as unlockRetryAfter, for the admin sign-in
+export async function adminSignInRetryAfter(storage: StorageDriver, address: string): Promise<number> {
+  const now = Date.now()
+  return waitFor(await recentFailures(storage, adminAttemptPrefix(address), now), MAX_FAILED_ADMIN_SIGN_INS_PER_IP, now)
+}
+
+export async function recordFailedAdminSignIn(storage: StorageDriver, address: string) {
+  await storage.put(`${adminAttemptPrefix(address)}${attemptName()}`, "", { contentType: "text/plain" })
+}
+
+// Deletes failures that no longer count; returns how many were removed
+export async function deleteExpiredUnlockAttempts(storage: StorageDriver, before: Date): Promise<number> {
+  let deleted = 0
+  let cursor: string | undefined
+
+  do {
+    const page = await storage.list(ATTEMPTS_PREFIX, { cursor })
+    const expired = page.objects
+      .map((object) => object.key)
+      .filter((key) => attemptTime(key) <= before.getTime() - UNLOCK_ATTEMPT_WINDOW_MS)
+
+    if (expired.length > 0) {
+      await storage.delete(expired)
+      deleted += expired.length
+    }
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  return deleted
+}
@@ -0,0 +1,300 @@
+import { randomBytes } from "crypto"
+import type { MultipartUpload, StorageDriver, StoredObject, UploadedPart } from "@/lib/storage"
+import {
+  type CompressionFrames,
+  type FileMetadata,
+  createFileId,
+  encryptedFileKey,
+  fileKey,
+  writeMetadata,
+} from "@/lib/metadata"
+import { COMPRESSION_CODECS, type CompressionCodec, DEFAULT_CODEC } from "@/lib/codecs"
+import { DEFAULT_LIFETIME_HOURS, computeExpiresAt } from "@/lib/expiry"
+import type { EncryptionParams } from "@/lib/encryption"
+
+export interface UploadSession {
+  id: string
+  fileName: string
+  relativePath?: string
+  // Size of the uploaded bytes, i.e. after compression; unknown for streamed uploads until the final chunk
+  size?: number
+  chunkSize: number
+  totalChunks?: number
+  originalSize: number
+  compressed: boolean
+  codec?: CompressionCodec
+  compressionRatio: number
+  frames?: CompressionFrames
+  sha256?: string
+  // How long the file stays available after completion; older sessions have the default
+  lifetimeHours?: number
+  maxDownloads?: number
+  passwordHash?: string
+  encryption?: EncryptionParams
+  multipart: MultipartUpload
+  createdAt: string
+  completedAt?: string
+  // Swept by cleanup afterwards, finished or not; older sessions expire UPLOAD_SESSION_LIFETIME_MS after createdAt
+  expiresAt?: string
+}
+
+// Streamed uploads learn these values from the final chunk
+export interface UploadTotals {
+  size: number
+  totalChunks: number
+  compressionRatio: number
+  frames?: CompressionFrames
+}
+
+export type ResolvedUploadSession = UploadSession & { size: number; totalChunks: number }
+
+export type UploadSessionInput = Pick<
+  UploadSession,
+  | "fileName"
+  | "relativePath"
+  | "size"
+  | "chunkSize"
+  | "totalChunks"
+  | "originalSize"
+  | "compressed"
+  | "codec"
+  | "compressionRatio"
+  | "frames"
+  | "sha256"
+  | "lifetimeHours"
+  | "maxDownloads"
+  | "passwordHash"
+  | "encryption"
+>
+
+/*
+ * uploads/<id>.json            the session itself
+ * uploads/<id>/chunk_<index>   one marker per received chunk, holding its part etag
+ * uploads/<id>/totals.json     totals sent with the final chunk of a streamed upload
+ * uploads/<id>/completing_<epoch ms>_<rand>   one marker per request that wants to complete the upload
+ * Chunks may arrive in parallel, so they never rewrite the shared session record.
+ */
+const sessionKey = (id: string) => `uploads/${id}.json`
+const chunksPrefix = (id: string) => `uploads/${id}/`
+const totalsKey = (id: string) => `${chunksPrefix(id)}totals.json`
+const chunkMarkerKey = (id: string, index: number) => `${chunksPrefix(id)}chunk_${index.toString().padStart(5, "0")}`
+const completionPrefix = (id: string) => `${chunksPrefix(id)}completing_`
+
+// Long enough to resume an interrupted upload the next day
+export const UPLOAD_SESSION_LIFETIME_MS = 24 * 60 * 60 * 1000
+
+// Chunks the removed /api/upload route collected; ones never assembled are still swept from here
+const LEGACY_TEMP_PREFIX = "temp/"
+
+// A claim this old belongs to a request that died while completing, so another one may take over
+const COMPLETION_CLAIM_TTL_MS = 5 * 60 * 1000
+
+export async function createUploadSession(storage: StorageDriver, input: UploadSessionInput): Promise<UploadSession> {
+  const id = createFileId()
+  const codec = input.codec ?? DEFAULT_CODEC
+  const key = input.encryption ? encryptedFileKey(id) : fileKey(id, input.fileName, input.compressed, codec)
+  const multipart = await storage.createMultipartUpload(key, {
+    contentType: input.compressed ? COMPRESSION_CODECS[codec].contentType : "application/octet-stream",
+  })
+
+  const createdAt = new Date()
+  const session: UploadSession = {
+    ...input,
+    id,
+    multipart,
+    createdAt: createdAt.toISOString(),
+    expiresAt: new Date(createdAt.getTime() + UPLOAD_SESSION_LIFETIME_MS).toISOString(),
+  }
+  await writeUploadSession(storage, session)
+  return session
+}
+
+export async function readUploadSession(storage: StorageDriver, id: string): Promise<UploadSession | null> {
+  // Ids end up in storage keys, so anything but the generated shape is unknown
+  if (!/^[0-9a-z]+$/i.test(id)) return null
+
+  const stored = await storage.get(sessionKey(id))
+  if (!stored) return null
+  return JSON.parse(await new Response(stored.body).text()) as UploadSession
+}
+
+async function writeUploadSession(storage: StorageDriver, session: UploadSession) {
+  await storage.put(sessionKey(session.id), JSON.stringify(session), { contentType: "application/json" })
+}
+
+export async function recordUploadTotals(storage: StorageDriver, session: UploadSession, totals: UploadTotals) {
+  await storage.put(totalsKey(session.id), JSON.stringify(totals), { contentType: "application/json" })
+}
+
+// Fills in the totals of a streamed upload; null while its final chunk has not arrived
+export async function resolveUploadSession(
+  storage: StorageDriver,
+  session: UploadSession,
+): Promise<ResolvedUploadSession | null> {
+  if (session.size !== undefined && session.totalChunks !== undefined) {
+    return session as ResolvedUploadSession
+  }
+
+  const stored = await storage.get(totalsKey(session.id))
+  if (!stored) return null
+  const totals = JSON.parse(await new Response(stored.body).text()) as UploadTotals
+  return { ...session, ...totals }
+}
+
+// Expected byte size of a chunk; only the last one may be shorter
+export const expectedChunkSize = (session: ResolvedUploadSession, index: number) =>
+  index === session.totalChunks - 1 ? session.size - index * session.chunkSize : session.chunkSize
+
+export async function recordChunk(storage: StorageDriver, session: UploadSession, index: number, part: UploadedPart) {
+  await storage.put(chunkMarkerKey(session.id, index), JSON.stringify(part), { contentType: "application/json" })
+}
+
+export async function listReceivedChunks(storage: StorageDriver, session: UploadSession): Promise<number[]> {
+  const received: number[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await storage.list(chunksPrefix(session.id), { cursor })
+    for (const object of page.objects) {
+      const match = object.key.slice(chunksPrefix(session.id).length).match(/^chunk_(\d+)$/)
+      if (match) received.push(Number(match[1]))
+    }
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  return received.sort((a, b) => a - b)
+}
+
+export const missingChunks = (session: ResolvedUploadSession, received: number[]) =>
+  Array.from({ length: session.totalChunks }, (_, i) => i).filter((i) => !received.includes(i))
+
+/**
+ * Decides which of several requests that each delivered the last missing chunk
+ * completes the upload: every one adds a marker and the oldest live marker wins.
+ * The others must leave the session alone; their chunk is stored either way.
+ * Resolves to the winning marker, which is released again if completing fails.
+ */
+export async function claimCompletion(storage: StorageDriver, session: UploadSession): Promise<string | null> {
+  const now = Date.now()
+  const marker = `${completionPrefix(session.id)}${now.toString().padStart(15, "0")}_${randomBytes(4).toString("hex")}`
+  await storage.put(marker, session.id, { contentType: "text/plain" })
+
+  const prefix = completionPrefix(session.id)
+  const claimedAt = (key: string) => Number(key.slice(prefix.length).split("_")[0])
+  const page = await storage.list(prefix)
+  const live = page.objects
+    .map((object) => object.key)
+    .filter((key) => now - claimedAt(key) < COMPLETION_CLAIM_TTL_MS)
+    .sort()
+  if (live[0] === marker) return marker
+
+  await storage.delete(marker)
+  return null
+}
+
+export const releaseCompletion = (storage: StorageDriver, marker: string) => storage.delete(marker)
+
+// Completes the multipart upload and saves the metadata once every chunk is in; callers claim completion first
+export async function completeUploadSession(
+  storage: StorageDriver,
+  session: ResolvedUploadSession,
+  ownerTokenHash: string,
+): Promise<FileMetadata> {
+  const markerKeys = Array.from({ length: session.totalChunks }, (_, i) => chunkMarkerKey(session.id, i))
+  const parts = await Promise.all(
+    markerKeys.map(async (key) => {
+      const stored = await storage.get(key)
+      if (!stored) throw new Error(`Chunk marker missing: ${key}`)
+      return JSON.parse(await new Response(stored.body).text()) as UploadedPart
+    }),
+  )
+
+  const finalObject = await storage.completeMultipartUpload(session.multipart, parts)
+
+  // A frame index that does not add up to the stored size would serve wrong bytes
+  const frames = session.frames?.offsets[session.frames.offsets.length - 1] === finalObject.size ? session.frames : undefined
+  if (session.frames && !frames) {
+    console.log("Frame index does not match the stored size, ignoring it:", session.id)
+  }
+
+  const uploadedAt = new Date().toISOString()
+  const metadata: FileMetadata = {
+    id: session.id,
+    originalName: session.fileName,
+    relativePath: session.relativePath,
+    size: finalObject.size,
+    originalSize: session.originalSize,
+    compressed: session.compressed,
+    codec: session.compressed ? session.codec : undefined,
+    compressionRatio: session.compressionRatio,
+    frames,
+    sha256: session.sha256,
+    uploadedAt,
+    expiresAt: computeExpiresAt(uploadedAt, session.lifetimeHours ?? DEFAULT_LIFETIME_HOURS),
+    maxDownloads: session.maxDownloads,
+    passwordHash: session.passwordHash,
+    encryption: session.encryption,
+    ownerTokenHash,
+    storageKey: finalObject.key,
+  }
+  await writeMetadata(storage, metadata)
+
+  session.completedAt = metadata.uploadedAt
+  await writeUploadSession(storage, session)
+
+  try {
+    const claims = await storage.list(completionPrefix(session.id))
+    await storage.delete([...markerKeys, totalsKey(session.id), ...claims.objects.map((object) => object.key)])
+  } catch (error) {
+    console.log("Could not delete chunk markers:", error)
+  }
+
+  return metadata
+}
+
+const sessionExpiresAt = (session: UploadSession) =>
+  new Date(session.expiresAt ?? new Date(session.createdAt).getTime() + UPLOAD_SESSION_LIFETIME_MS)
+
+async function listObjects(storage: StorageDriver, prefix: string) {
+  const objects: StoredObject[] = []
+  let cursor: string | undefined
+  do {
+    const page = await storage.list(prefix, { cursor })
+    objects.push(...page.objects)
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+  return objects
+}
+
+/**
+ * Removes sessions past their expiry together with their markers, and discards
+ * the parts of those that were never completed. Chunks the legacy chunk route
+ * left under temp/ are removed once they are as old as a session can get.
+ */
+export async function deleteExpiredUploadSessions(storage: StorageDriver, before: Date): Promise<number> {
+  const sessionIds = (await listObjects(storage, "uploads/")).flatMap(
+    (object) => object.key.match(/^uploads\/([0-9a-z]+)\.json$/i)?.[1] ?? [],
+  )
+  let deleted = 0
+
+  for (const id of sessionIds) {
+    const session = await readUploadSession(storage, id)
+    if (!session || sessionExpiresAt(session).getTime() > before.getTime()) continue
+
+    if (!session.completedAt) {
+      await storage.abortMultipartUpload(session.multipart)
+    }
+    const markers = await listObjects(storage, chunksPrefix(id))
+    await storage.delete([...markers.map((object) => object.key), sessionKey(id)])
+    deleted++
+  }
+
+  const staleTemp = (await listObjects(storage, LEGACY_TEMP_PREFIX))
+    .filter((object) => object.uploadedAt.getTime() + UPLOAD_SESSION_LIFETIME_MS <= before.getTime())
+    .map((object) => object.key)
+  if (staleTemp.length > 0) {
+    await storage.delete(staleTemp)
+  }
+
+  return deleted
+}
@@ -0,0 +1,258 @@
+/*
+ * Streams a ZIP archive without buffering it. Entries are stored uncompressed
+ * (the sources are already decompressed and mostly incompressible media), so
+ * every offset, and with it the archive size, is known before the first byte is
+ * sent. CRCs are only known after each entry, so they follow in a data
+ * descriptor. Entries or offsets past 4 GiB switch to the ZIP64 fields.
+ */
+
+export interface ZipEntry {
+  // Path inside the archive, "/" separated
+  path: string
+  // Exact number of bytes open() will produce
+  size: number
+  modifiedAt: Date
+  open(): Promise<ReadableStream<Uint8Array>>
+}
+
+interface PlannedEntry {
+  entry: ZipEntry
+  name: Uint8Array
+  offset: number
+  zip64: boolean
+}
+
+const MAX_32 = 0xffffffff
+const MAX_16 = 0xffff
+
+// General purpose flags: sizes and CRC follow in a data descriptor (bit 3), UTF-8 names (bit 11)
+const FLAGS = 0x0808
+const VERSION_DEFAULT = 20
+const VERSION_ZIP64 = 45
+
+const LOCAL_HEADER_SIZE = 30
+const CENTRAL_HEADER_SIZE = 46
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22
+const ZIP64_END_SIZE = 56 + 20
+const ZIP64_LOCAL_EXTRA_SIZE = 20
+const ZIP64_CENTRAL_EXTRA_SIZE = 28
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function updateCrc(crc: number, data: Uint8Array): number {
+  let c = crc ^ MAX_32
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ MAX_32) >>> 0
+}
+
+// MS-DOS date and time, which cannot express anything before 1980
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980)
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+const descriptorSize = (zip64: boolean) => (zip64 ? 24 : 16)
+
+// Lays out every entry so that offsets, and the ZIP64 decision that depends on them, are fixed upfront
+function planArchive(entries: ZipEntry[]) {
+  const encoder = new TextEncoder()
+  const planned: PlannedEntry[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const zip64 = entry.size >= MAX_32 || offset >= MAX_32
+    planned.push({ entry, name, offset, zip64 })
+    offset +=
+      LOCAL_HEADER_SIZE +
+      name.length +
+      (zip64 ? ZIP64_LOCAL_EXTRA_SIZE : 0) +
+      entry.size +
+      descriptorSize(zip64)
+  }
+
+  const centralOffset = offset
+  const centralSize = planned.reduce(
+    (total, { name, zip64 }) => total + CENTRAL_HEADER_SIZE + name.length + (zip64 ? ZIP64_CENTRAL_EXTRA_SIZE : 0),
+    0,
+  )
+  const zip64End = planned.length >= MAX_16 || centralOffset >= MAX_32 || centralSize >= MAX_32
+  const totalSize = centralOffset + centralSize + (zip64End ? ZIP64_END_SIZE : 0) + END_OF_CENTRAL_DIRECTORY_SIZE
+
+  return { planned, centralOffset, centralSize, zip64End, totalSize }
+}
+
+// Size of the archive createZipStream produces for these entries
+export const zipArchiveSize = (entries: ZipEntry[]) => planArchive(entries).totalSize
+
+function localHeader({ entry, name, zip64 }: PlannedEntry): Uint8Array {
+  const buffer = new Uint8Array(LOCAL_HEADER_SIZE + name.length + (zip64 ? ZIP64_LOCAL_EXTRA_SIZE : 0))
+  const view = new DataView(buffer.buffer)
+  const { time, date } = dosDateTime(entry.modifiedAt)
+
+  view.setUint32(0, 0x04034b50, true)
+  view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true)
+  view.setUint16(6, FLAGS, true)
+  view.setUint16(8, 0, true) // stored
+  view.setUint16(10, time, true)
+  view.setUint16(12, date, true)
+  // CRC and sizes are only known afterwards and sent in the data descriptor
+  view.setUint32(18, zip64 ? MAX_32 : 0, true)
+  view.setUint32(22, zip64 ? MAX_32 : 0, true)
+  view.setUint16(26, name.length, true)
+  view.setUint16(28, zip64 ? ZIP64_LOCAL_EXTRA_SIZE : 0, true)
+  buffer.set(name, LOCAL_HEADER_SIZE)
+
+  if (zip64) {
+    const extra = LOCAL_HEADER_SIZE + name.length
+    view.setUint16(extra, 0x0001, true)
+    view.setUint16(extra + 2, 16, true)
+  }
+  return buffer
+}
+
+function dataDescriptor(crc: number, size: number, zip64: boolean): Uint8Array {
+  const buffer = new Uint8Array(descriptorSize(zip64))
+  const view = new DataView(buffer.buffer)
+
+  view.setUint32(0, 0x08074b50, true)
+  view.setUint32(4, crc, true)
+  if (zip64) {
+    view.setBigUint64(8, BigInt(size), true)
+    view.setBigUint64(16, BigInt(size), true)
+  } else {
+    view.setUint32(8, size, true)
+    view.setUint32(12, size, true)
+  }
+  return buffer
+}
+
+function centralHeader({ entry, name, offset, zip64 }: PlannedEntry, crc: number): Uint8Array {
+  const buffer = new Uint8Array(CENTRAL_HEADER_SIZE + name.length + (zip64 ? ZIP64_CENTRAL_EXTRA_SIZE : 0))
+  const view = new DataView(buffer.buffer)
+  const { time, date } = dosDateTime(entry.modifiedAt)
+  const version = zip64 ? VERSION_ZIP64 : VERSION_DEFAULT
+
+  view.setUint32(0, 0x02014b50, true)
+  view.setUint16(4, version, true)
+  view.setUint16(6, version, true)
+  view.setUint16(8, FLAGS, true)
+  view.setUint16(10, 0, true)
+  view.setUint16(12, time, true)
+  view.setUint16(14, date, true)
+  view.setUint32(16, crc, true)
+  view.setUint32(20, zip64 ? MAX_32 : entry.size, true)
+  view.setUint32(24, zip64 ? MAX_32 : entry.size, true)
+  view.setUint16(28, name.length, true)
+  view.setUint16(30, zip64 ? ZIP64_CENTRAL_EXTRA_SIZE : 0, true)
+  // Comment length, disk number, internal and external attributes stay zero
+  view.setUint32(42, zip64 ? MAX_32 : offset, true)
+  buffer.set(name, CENTRAL_HEADER_SIZE)
+
+  if (zip64) {
+    const extra = CENTRAL_HEADER_SIZE + name.length
+    view.setUint16(extra, 0x0001, true)
+    view.setUint16(extra + 2, 24, true)
+    view.setBigUint64(extra + 4, BigInt(entry.size), true)
+    view.setBigUint64(extra + 12, BigInt(entry.size), true)
+    view.setBigUint64(extra + 20, BigInt(offset), true)
+  }
+  return buffer
+}
+
+function endOfCentralDirectory(count: number, centralOffset: number, centralSize: number, zip64: boolean) {
+  const buffer = new Uint8Array((zip64 ? ZIP64_END_SIZE : 0) + END_OF_CENTRAL_DIRECTORY_SIZE)
+  const view = new DataView(buffer.buffer)
+  let position = 0
+
+  if (zip64) {
+    // ZIP64 end of central directory record, followed by its locator
+    view.setUint32(0, 0x06064b50, true)
+    view.setBigUint64(4, BigInt(56 - 12), true)
+    view.setUint16(12, VERSION_ZIP64, true)
+    view.setUint16(14, VERSION_ZIP64, true)
+    view.setBigUint64(24, BigInt(count), true)
+    view.setBigUint64(32, BigInt(count), true)
+    view.setBigUint64(40, BigInt(centralSize), true)
+    view.setBigUint64(48, BigInt(centralOffset), true)
+
+    view.setUint32(56, 0x07064b50, true)
+    view.setBigUint64(64, BigInt(centralOffset + centralSize), true)
+    view.setUint32(72, 1, true)
+    position = ZIP64_END_SIZE
+  }
+
+  view.setUint32(position, 0x06054b50, true)
+  view.setUint16(position + 8, Math.min(count, MAX_16), true)
+  view.setUint16(position + 10, Math.min(count, MAX_16), true)
+  view.setUint32(position + 12, Math.min(centralSize, MAX_32), true)
+  view.setUint32(position + 16, Math.min(centralOffset, MAX_32), true)
+  return buffer
+}
+
+async function* writeArchive(entries: ZipEntry[]): AsyncGenerator<Uint8Array> {
+  const { planned, centralOffset, centralSize, zip64End } = planArchive(entries)
+  const crcs: number[] = []
+
+  for (const item of planned) {
+    yield localHeader(item)
+
+    let crc = 0
+    let written = 0
+    const reader = (await item.entry.open()).getReader()
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        crc = updateCrc(crc, value)
+        written += value.byteLength
+        yield value
+      }
+    } finally {
+      // Releases the source when the download is aborted midway
+      await reader.cancel().catch(() => undefined)
+    }
+
+    // Every offset after this entry was computed from the declared size
+    if (written !== item.entry.size) {
+      throw new Error(`${item.entry.path}: expected ${item.entry.size} bytes, got ${written}`)
+    }
+    crcs.push(crc)
+    yield dataDescriptor(crc, written, item.zip64)
+  }
+
+  for (const [i, item] of planned.entries()) {
+    yield centralHeader(item, crcs[i])
+  }
+  yield endOfCentralDirectory(planned.length, centralOffset, centralSize, zip64End)
+}
+
+/**
+ * Returns the archive as a stream. Entries are opened one after another, only
+ * when the consumer has read up to them.
+ */
+export function createZipStream(entries: ZipEntry[]): ReadableStream<Uint8Array> {
+  const archive = writeArchive(entries)
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await archive.next()
+      if (done) controller.close()
+      else controller.enqueue(value)
+    },
+    async cancel() {
+      await archive.return(undefined)
+    },
+  })
+}
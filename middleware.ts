@@ -0,0 +1,80 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { verifySignedPath } from "@/lib/signed-url"
+import { ADMIN_SESSION_COOKIE, readAdminSession } from "@/lib/admin-auth/session"
+
+// Where an admin session starts, so they stay reachable without one
+const ADMIN_SIGN_IN_PATHS = ["/admin/login", "/api/admin/session"]
+
+// Admin API outside /api/admin, kept at their old paths
+const ADMIN_API_PATHS = ["/api/cleanup", "/api/cleanup-status"]
+
+const isAdminSession = async (request: NextRequest) =>
+  !!(await readAdminSession(request.cookies.get(ADMIN_SESSION_COOKIE)?.value))
+
+// Vercel Cron sends Authorization: Bearer <CRON_SECRET>
+function hasCronSecret(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  const authorization = request.headers.get("authorization") ?? ""
+  const expected = `Bearer ${secret}`
+  if (!secret || authorization.length !== expected.length) return false
+
+  let difference = 0
+  for (let i = 0; i < expected.length; i++) {
+    difference |= authorization.charCodeAt(i) ^ expected.charCodeAt(i)
+  }
+  return difference === 0
+}
+
+/*
+ * Routes that send file bytes only answer signed URLs, which the metadata,
+ * collection and upload APIs hand out. An unsigned or expired link gets a 403
+ * and the route itself never runs. The admin dashboard and its API need an
+ * admin session, and the cleanup cron takes either a session or CRON_SECRET.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+
+  if (pathname.startsWith("/api/cron/")) {
+    if (!hasCronSecret(request) && !(await isAdminSession(request))) {
+      console.log("Rejected unauthorized cron request:", pathname)
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    return NextResponse.next()
+  }
+
+  if (pathname === "/admin" || pathname.startsWith("/admin/")) {
+    if (!ADMIN_SIGN_IN_PATHS.includes(pathname) && !(await isAdminSession(request))) {
+      const loginUrl = new URL("/admin/login", request.url)
+      loginUrl.searchParams.set("next", pathname)
+      return NextResponse.redirect(loginUrl)
+    }
+    return NextResponse.next()
+  }
+
+  if (pathname.startsWith("/api/admin/") || ADMIN_API_PATHS.includes(pathname)) {
+    if (!ADMIN_SIGN_IN_PATHS.includes(pathname) && !(await isAdminSession(request))) {
+      console.log("Rejected admin API request without a session:", pathname)
+      return NextResponse.json({ error: "Admin session required" }, { status: 401 })
+    }
+    return NextResponse.next()
+  }
+
+  if (!(await verifySignedPath(request.nextUrl))) {
+    console.log("Rejected unsigned or expired download URL:", request.nextUrl.pathname)
+    return NextResponse.json({ error: "Download link is invalid or has expired" }, { status: 403 })
+  }
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: [
+    "/api/download-stream/:path*",
+    "/api/download/:path*",
+    "/api/collections/:collectionId/zip",
+    "/admin/:path*",
+    "/api/admin/:path*",
+    "/api/cleanup",
+    "/api/cleanup-status",
+    "/api/cron/:path*",
+  ],
+}
@@ -9,6 +9,16 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    // Loads its .wasm from next to its own file at runtime, which bundling would break
+    serverComponentsExternalPackages: ["brotli-wasm"],
+  },
+  webpack: (config) => {
+    // brotli-wasm imports its .wasm as a module; zstd-wasm fetches its own file by URL
+    config.experiments = { ...config.experiments, asyncWebAssembly: true }
+    config.module.rules.push({ test: /zstd\.wasm$/, type: "asset/resource" })
+    return config
+  },
 }
 
 export default nextConfig